@@ -1,13 +1,28 @@
-async function execute(inputText, config) {
+async function execute(inputText, config, inputs = {}) {
 	const { gradingCriteria, gradeScale, includeSuggestions } = config;
+
+	// A rubric connected through an edge labelled "rubric" replaces the criteria setting
+	const criteria = inputs.rubric || gradingCriteria;
 	
-	let prompt = `Please grade the following work based on these criteria: ${gradingCriteria}\n\nGrading scale: ${gradeScale}`;
+	let prompt = `Please grade the following work based on these criteria:\n\n${criteria}\n\nGrading scale: ${gradeScale}`;
 	if (includeSuggestions) {
 		prompt += `\nInclude specific suggestions for improvement.`;
 	}
-	prompt += `\n\nWork to grade:\n\n${inputText}`;
+	prompt += `\n\nWork to grade:\n\n${inputs.essay || inputText}`;
 
 	return prompt;
 }
 
-module.exports = { execute };
+// Turn the validated JSON into the text shown on the canvas
+function render(data) {
+	let text = `## Grade: ${data.grade}\n\n${data.summary}`;
+	if (data.criteria && data.criteria.length > 0) {
+		text += '\n\n' + data.criteria.map(item => `- **${item.name}** (${item.score}): ${item.feedback}`).join('\n');
+	}
+	if (data.suggestions && data.suggestions.length > 0) {
+		text += '\n\n### Suggestions\n' + data.suggestions.map(suggestion => `- ${suggestion}`).join('\n');
+	}
+	return text;
+}
+
+module.exports = { execute, render };
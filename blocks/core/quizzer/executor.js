@@ -1,11 +1,26 @@
 async function execute(inputText, config) {
 	const { questionType, numQuestions, difficulty } = config;
 	
-	// Construct the prompt
-	const prompt = `Generate ${numQuestions} ${difficulty} ${questionType} questions based on the following content:\n\n${inputText}\n\nFormat the questions clearly with answers.`;
+	// Construct the prompt - the block's outputSchema makes the model answer in JSON
+	const prompt = `Generate ${numQuestions} ${difficulty} ${questionType} questions based on the following content:\n\n${inputText}\n\nInclude the correct answer and a short explanation for each question.`;
 
 	// Return the prompt - the BlockExecutor will handle the AI API call
 	return prompt;
 }
 
-module.exports = { execute };
+// Turn the validated JSON into the text shown on the canvas
+function render(data) {
+	return data.questions.map((question, index) => {
+		let text = `**${index + 1}. ${question.question}**`;
+		if (question.options && question.options.length > 0) {
+			text += '\n' + question.options.map(option => `- ${option}`).join('\n');
+		}
+		text += `\n\n*Answer:* ${question.answer}`;
+		if (question.explanation) {
+			text += `\n*Why:* ${question.explanation}`;
+		}
+		return text;
+	}).join('\n\n');
+}
+
+module.exports = { execute, render };
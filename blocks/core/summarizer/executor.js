@@ -1,18 +1,25 @@
 async function execute(inputText, config) {
 	const { systemPrompt, tone, outputFormat, maxLength, citeReferences } = config;
 	
-	// Construct the prompt
-	let prompt = `${systemPrompt}\n\nTone: ${tone}\nFormat: ${outputFormat}`;
+	// Construct the instructions
+	let instructions = `Tone: ${tone}\nFormat: ${outputFormat}`;
 	if (maxLength) {
-		prompt += `\nMaximum length: ${maxLength} words`;
+		instructions += `\nMaximum length: ${maxLength} words`;
 	}
 	if (citeReferences) {
-		prompt += `\nInclude references and citations where appropriate`;
+		instructions += `\nInclude references and citations where appropriate`;
 	}
-	prompt += `\n\nText to summarize:\n\n${inputText}`;
 
-	// Return the prompt - the BlockExecutor will handle the AI API call
-	return prompt;
+	// Return a structured request - the system prompt is sent as the model's system message
+	return {
+		system: systemPrompt,
+		messages: [
+			{
+				role: 'user',
+				content: `${instructions}\n\nText to summarize:\n\n${inputText}`
+			}
+		]
+	};
 }
 
 module.exports = { execute };
@@ -11,6 +11,29 @@ if you want to view the source, please visit the github repository of this plugi
 
 const prod = (process.argv[2] === "production");
 
+// The headless runner: a Node script with the core modules and none of the plugin's UI
+if (process.argv[2] === "headless") {
+	await esbuild.build({
+		banner: {
+			js: "#!/usr/bin/env node\n" + banner,
+		},
+		entryPoints: ["src/headless/cli.ts"],
+		bundle: true,
+		// Stand-ins for the few Obsidian functions the core uses
+		alias: {
+			obsidian: "./src/headless/obsidian.ts",
+		},
+		external: [...builtins],
+		platform: "node",
+		format: "cjs",
+		target: "node18",
+		logLevel: "info",
+		treeShaking: true,
+		outfile: "headless.js",
+	});
+	process.exit(0);
+}
+
 const context = await esbuild.context({
 	banner: {
 		js: banner,
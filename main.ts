@@ -1,28 +1,38 @@
 import { App, Plugin, PluginSettingTab, Setting, TFile, Notice } from 'obsidian';
 import { BlockManager } from './src/BlockManager';
+import { BlockTester } from './src/BlockTester';
 import { CanvasManager } from './src/CanvasManager';
 import { UIManager } from './src/UIManager';
 import { ActionHandler } from './src/ActionHandler';
 import { BlockExecutor } from './src/BlockExecutor';
+import { ProviderRegistry } from './src/ProviderRegistry';
+import { ResponseCache } from './src/ResponseCache';
+import { DEFAULT_MODEL_PRICES, UsageLedger } from './src/UsageLedger';
+import { RunManager } from './src/RunManager';
+import { DEFAULT_CONTEXT_LIMITS } from './src/Chunker';
+import { BLOCK_PERMISSIONS } from './src/ExecutorSandbox';
+import { PipelineErrorPolicy, PipelineRunner } from './src/PipelineRunner';
+import { SourceResolver } from './src/SourceResolver';
+import { LayoutService } from './src/LayoutService';
+import { StaleTracker } from './src/StaleTracker';
+import { BatchRunner } from './src/BatchRunner';
+import { AuthScheme, ProviderConfig } from './src/providers/AIProvider';
+import { DEFAULT_FIXTURE_FOLDER } from './src/providers/MockProvider';
+import { DEFAULT_SETTINGS, LivingCanvasSettings } from './src/settings';
+import { Host } from './src/host/Host';
+import { ObsidianHost } from './src/host/ObsidianHost';
 
-export interface LivingCanvasSettings {
-	openaiApiKey: string;
-	anthropicApiKey: string;
-	defaultModel: string;
-	enableDebugMode: boolean;
-	savedPrompts?: { name: string; content: string }[];
-}
-
-const DEFAULT_SETTINGS: LivingCanvasSettings = {
-	openaiApiKey: '',
-	anthropicApiKey: '',
-	defaultModel: 'gpt-3.5-turbo',
-	enableDebugMode: false,
-	savedPrompts: []
+const AUTH_SCHEMES: Record<AuthScheme, string> = {
+	'bearer': 'Authorization: Bearer',
+	'x-api-key': 'x-api-key header',
+	'api-key': 'api-key header',
+	'none': 'No authentication'
 };
 
 export class LivingCanvasPlugin extends Plugin {
 	settings: LivingCanvasSettings;
+	// Storage and notifications; the headless runner provides its own
+	host: Host;
 	
 	// Core components
 	blockManager: BlockManager;
@@ -30,22 +40,47 @@ export class LivingCanvasPlugin extends Plugin {
 	uiManager: UIManager;
 	actionHandler: ActionHandler;
 	blockExecutor: BlockExecutor;
+	providerRegistry: ProviderRegistry;
+	responseCache: ResponseCache;
+	usageLedger: UsageLedger;
+	runManager: RunManager;
+	pipelineRunner: PipelineRunner;
+	sourceResolver: SourceResolver;
+	layoutService: LayoutService;
+	staleTracker: StaleTracker;
+	batchRunner: BatchRunner;
+	blockTester: BlockTester;
 
 	async onload() {
 		await this.loadSettings();
+		this.host = new ObsidianHost(this.app);
 
 		// Initialize core components
+		this.providerRegistry = new ProviderRegistry(this);
+		this.responseCache = new ResponseCache(this);
+		this.usageLedger = new UsageLedger(this);
+		this.runManager = new RunManager(this);
 		this.blockManager = new BlockManager(this);
 		this.canvasManager = new CanvasManager(this);
+		this.sourceResolver = new SourceResolver(this);
+		this.layoutService = new LayoutService(this);
 		this.blockExecutor = new BlockExecutor(this);
 		this.actionHandler = new ActionHandler(this);
+		this.pipelineRunner = new PipelineRunner(this);
+		this.batchRunner = new BatchRunner(this);
+		this.staleTracker = new StaleTracker(this);
+		this.blockTester = new BlockTester(this);
 		this.uiManager = new UIManager(this);
 
 		// Initialize components in order
 		await this.blockManager.initialize();
 		await this.canvasManager.initialize();
+		await this.responseCache.initialize();
+		await this.usageLedger.initialize();
+		await this.runManager.initialize();
 		await this.uiManager.initialize();
 		await this.actionHandler.initialize();
+		await this.staleTracker.initialize();
 
 		// Add settings tab
 		this.addSettingTab(new LivingCanvasSettingTab(this.app, this));
@@ -66,11 +101,31 @@ export class LivingCanvasPlugin extends Plugin {
 		// Clean up components
 		this.uiManager?.cleanup();
 		this.actionHandler?.cleanup();
+		this.runManager?.cleanup();
+		this.staleTracker?.cleanup();
 		console.log('Living Canvas plugin unloaded');
 	}
 
 	async loadSettings() {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+		const data = await this.loadData();
+		this.settings = Object.assign({}, DEFAULT_SETTINGS, data);
+		this.settings.modelPrices = Object.assign({}, DEFAULT_MODEL_PRICES, data?.modelPrices);
+		this.settings.contextLimits = Object.assign({}, DEFAULT_CONTEXT_LIMITS, data?.contextLimits);
+		this.settings.blockPermissions = Object.assign({}, data?.blockPermissions);
+
+		// Seed providers on first load, carrying over the old fixed API key fields
+		if (!data || !Array.isArray(data.providers)) {
+			this.settings.providers = DEFAULT_SETTINGS.providers.map(provider => ({
+				...provider,
+				models: [...provider.models],
+				apiKey: (provider.type === 'openai' ? data?.openaiApiKey : data?.anthropicApiKey) || ''
+			}));
+			delete (this.settings as unknown as Record<string, unknown>).openaiApiKey;
+			delete (this.settings as unknown as Record<string, unknown>).anthropicApiKey;
+			if (data) {
+				await this.saveSettings();
+			}
+		}
 	}
 
 	async saveSettings() {
@@ -82,6 +137,11 @@ export class LivingCanvasPlugin extends Plugin {
 		return this.canvasManager.getCurrentCanvas();
 	}
 
+	// Folder for the plugin's own files (cache, logs), next to its data.json
+	getDataDirectory(): string {
+		return this.manifest.dir || `${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+	}
+
 	// Debug logging
 	debug(message: string, ...args: unknown[]) {
 		if (this.settings.enableDebugMode) {
@@ -104,42 +164,351 @@ class LivingCanvasSettingTab extends PluginSettingTab {
 
 		containerEl.createEl('h2', { text: 'Living Canvas Settings' });
 
-		// API Keys Section
-		containerEl.createEl('h3', { text: 'AI API Configuration' });
+		// Providers Section
+		containerEl.createEl('h3', { text: 'AI Providers' });
+
+		for (const provider of this.plugin.settings.providers) {
+			this.displayProvider(containerEl, provider);
+		}
+
+		const providerTypes = this.plugin.providerRegistry.getTypes();
+		let newProviderType = providerTypes[0]?.type || '';
+		new Setting(containerEl)
+			.setName('Add Provider')
+			.setDesc('Add another OpenAI, Anthropic or OpenAI-compatible (gateway, Ollama, llama.cpp) endpoint')
+			.addDropdown(dropdown => {
+				for (const providerType of providerTypes) {
+					dropdown.addOption(providerType.type, providerType.label);
+				}
+				dropdown
+					.setValue(newProviderType)
+					.onChange((value) => {
+						newProviderType = value;
+					});
+			})
+			.addButton(button => button
+				.setButtonText('Add')
+				.onClick(async () => {
+					this.plugin.settings.providers.push(this.plugin.providerRegistry.createConfig(newProviderType));
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		new Setting(containerEl)
+			.setName('Default Model')
+			.setDesc('Default AI model to use for processing')
+			.addDropdown(dropdown => {
+				const models = this.plugin.providerRegistry.listModels();
+				for (const model of models) {
+					dropdown.addOption(model.ref, model.label);
+				}
+				// Keep an older bare model name selectable until it is changed
+				if (!models.some(model => model.ref === this.plugin.settings.defaultModel)) {
+					dropdown.addOption(this.plugin.settings.defaultModel, this.plugin.settings.defaultModel);
+				}
+				dropdown
+					.setValue(this.plugin.settings.defaultModel)
+					.onChange(async (value) => {
+						this.plugin.settings.defaultModel = value;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		// Retry Section
+		containerEl.createEl('h3', { text: 'Retries' });
+
+		new Setting(containerEl)
+			.setName('Maximum Retries')
+			.setDesc('How many times to retry a call that failed with a rate limit, server or network error')
+			.addText(text => text
+				.setValue(String(this.plugin.settings.maxRetries))
+				.onChange(async (value: string) => {
+					const parsed = parseInt(value, 10);
+					if (!isNaN(parsed) && parsed >= 0) {
+						this.plugin.settings.maxRetries = parsed;
+						await this.plugin.saveSettings();
+					}
+				}));
+
+		new Setting(containerEl)
+			.setName('Initial Retry Delay (ms)')
+			.setDesc('Delay before the first retry; doubles on each further attempt. A Retry-After header from the provider takes precedence.')
+			.addText(text => text
+				.setValue(String(this.plugin.settings.retryBaseDelayMs))
+				.onChange(async (value: string) => {
+					const parsed = parseInt(value, 10);
+					if (!isNaN(parsed) && parsed > 0) {
+						this.plugin.settings.retryBaseDelayMs = parsed;
+						await this.plugin.saveSettings();
+					}
+				}));
 
 		new Setting(containerEl)
-			.setName('OpenAI API Key')
-			.setDesc('Your OpenAI API key for GPT models')
+			.setName('Maximum Retry Delay (ms)')
+			.setDesc('Upper bound for the backoff delay, including waits the provider asks for')
 			.addText(text => text
-				.setPlaceholder('sk-...')
-				.setValue(this.plugin.settings.openaiApiKey)
+				.setValue(String(this.plugin.settings.retryMaxDelayMs))
 				.onChange(async (value: string) => {
-					this.plugin.settings.openaiApiKey = value;
+					const parsed = parseInt(value, 10);
+					if (!isNaN(parsed) && parsed > 0) {
+						this.plugin.settings.retryMaxDelayMs = parsed;
+						await this.plugin.saveSettings();
+					}
+				}));
+
+		// Cache Section
+		containerEl.createEl('h3', { text: 'Response Cache' });
+
+		new Setting(containerEl)
+			.setName('Cache Responses')
+			.setDesc('Reuse the stored response when a block runs again with the same prompt, model and parameters')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.cacheEnabled)
+				.onChange(async (value) => {
+					this.plugin.settings.cacheEnabled = value;
 					await this.plugin.saveSettings();
 				}));
 
 		new Setting(containerEl)
-			.setName('Anthropic API Key')
-			.setDesc('Your Anthropic API key for Claude models')
+			.setName('Maximum Cache Size (MB)')
+			.setDesc('Least recently used responses are removed beyond this size')
 			.addText(text => text
-				.setPlaceholder('sk-ant-...')
-				.setValue(this.plugin.settings.anthropicApiKey)
+				.setValue(String(this.plugin.settings.cacheMaxSizeMB))
 				.onChange(async (value: string) => {
-					this.plugin.settings.anthropicApiKey = value;
+					const parsed = parseFloat(value);
+					if (!isNaN(parsed) && parsed > 0) {
+						this.plugin.settings.cacheMaxSizeMB = parsed;
+						await this.plugin.saveSettings();
+					}
+				}));
+
+		new Setting(containerEl)
+			.setName('Cache Lifetime (days)')
+			.setDesc('Responses older than this are refetched. 0 keeps them until evicted by size.')
+			.addText(text => text
+				.setValue(String(this.plugin.settings.cacheTtlDays))
+				.onChange(async (value: string) => {
+					const parsed = parseFloat(value);
+					if (!isNaN(parsed) && parsed >= 0) {
+						this.plugin.settings.cacheTtlDays = parsed;
+						await this.plugin.saveSettings();
+					}
+				}));
+
+		const stats = this.plugin.responseCache.getStats();
+		new Setting(containerEl)
+			.setName('Clear Cache')
+			.setDesc(`${stats.entries} cached responses (${(stats.bytes / 1024).toFixed(1)} KB)`)
+			.addButton(button => button
+				.setButtonText('Clear Cache')
+				.onClick(async () => {
+					await this.plugin.responseCache.clear();
+					new Notice('Response cache cleared');
+					this.display();
+				}));
+
+		// Usage Section
+		containerEl.createEl('h3', { text: 'Usage & Cost' });
+
+		new Setting(containerEl)
+			.setName('Usage Report')
+			.setDesc('Token usage and estimated cost per node, canvas and day, with CSV export')
+			.addButton(button => button
+				.setButtonText('Open Report')
+				.onClick(() => {
+					this.plugin.uiManager.showUsageReport();
+				}));
+
+		containerEl.createEl('p', {
+			text: 'Prices in USD per million tokens, used to estimate the cost of each run. Models without a price are recorded at zero cost.',
+			cls: 'setting-item-description'
+		});
+
+		const pricedModels = new Set(Object.keys(this.plugin.settings.modelPrices));
+		for (const model of this.plugin.providerRegistry.listModels()) {
+			const bare = model.ref.slice(model.ref.indexOf(':') + 1);
+			if (!pricedModels.has(model.ref) && !pricedModels.has(bare)) {
+				pricedModels.add(bare);
+			}
+		}
+		for (const model of Array.from(pricedModels).sort()) {
+			const price = this.plugin.settings.modelPrices[model] || { input: 0, output: 0 };
+			new Setting(containerEl)
+				.setName(model)
+				.addText(text => text
+					.setPlaceholder('Input $/1M')
+					.setValue(String(price.input))
+					.onChange(async (value: string) => {
+						const parsed = parseFloat(value);
+						if (!isNaN(parsed) && parsed >= 0) {
+							this.plugin.settings.modelPrices[model] = { ...price, input: parsed };
+							price.input = parsed;
+							await this.plugin.saveSettings();
+						}
+					}))
+				.addText(text => text
+					.setPlaceholder('Output $/1M')
+					.setValue(String(price.output))
+					.onChange(async (value: string) => {
+						const parsed = parseFloat(value);
+						if (!isNaN(parsed) && parsed >= 0) {
+							this.plugin.settings.modelPrices[model] = { ...price, output: parsed };
+							price.output = parsed;
+							await this.plugin.saveSettings();
+						}
+					}));
+		}
+
+		// Context Section
+		containerEl.createEl('h3', { text: 'Context Limits' });
+
+		containerEl.createEl('p', {
+			text: 'Context window of each model in tokens. Input that doesn\'t fit is split into chunks for blocks that support it, such as the summarizer and translator.',
+			cls: 'setting-item-description'
+		});
+
+		new Setting(containerEl)
+			.setName('Default Context Limit')
+			.setDesc('Used for models not listed below')
+			.addText(text => text
+				.setValue(String(this.plugin.settings.defaultContextLimit))
+				.onChange(async (value: string) => {
+					const parsed = parseInt(value);
+					if (!isNaN(parsed) && parsed > 0) {
+						this.plugin.settings.defaultContextLimit = parsed;
+						await this.plugin.saveSettings();
+					}
+				}));
+
+		const limitedModels = new Set(Object.keys(this.plugin.settings.contextLimits));
+		for (const model of this.plugin.providerRegistry.listModels()) {
+			const bare = model.ref.slice(model.ref.indexOf(':') + 1);
+			if (!limitedModels.has(model.ref) && !limitedModels.has(bare)) {
+				limitedModels.add(bare);
+			}
+		}
+		for (const model of Array.from(limitedModels).sort()) {
+			new Setting(containerEl)
+				.setName(model)
+				.addText(text => text
+					.setPlaceholder(String(this.plugin.settings.defaultContextLimit))
+					.setValue(this.plugin.settings.contextLimits[model] ? String(this.plugin.settings.contextLimits[model]) : '')
+					.onChange(async (value: string) => {
+						const parsed = parseInt(value);
+						if (!value.trim()) {
+							delete this.plugin.settings.contextLimits[model];
+							await this.plugin.saveSettings();
+						} else if (!isNaN(parsed) && parsed > 0) {
+							this.plugin.settings.contextLimits[model] = parsed;
+							await this.plugin.saveSettings();
+						}
+					}));
+		}
+
+		// Input Section
+		containerEl.createEl('h3', { text: 'Input Sources' });
+
+		new Setting(containerEl)
+			.setName('Strip Frontmatter')
+			.setDesc('Leave out the YAML frontmatter of notes connected to a block')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.stripFrontmatter)
+				.onChange(async (value) => {
+					this.plugin.settings.stripFrontmatter = value;
 					await this.plugin.saveSettings();
 				}));
 
 		new Setting(containerEl)
-			.setName('Default Model')
-			.setDesc('Default AI model to use for processing')
+			.setName('Web Page Cache (hours)')
+			.setDesc('How long a fetched copy of a link node is reused before fetching the page again')
+			.addText(text => text
+				.setValue(String(this.plugin.settings.linkCacheHours))
+				.onChange(async (value: string) => {
+					const parsed = parseFloat(value);
+					if (!isNaN(parsed) && parsed >= 0) {
+						this.plugin.settings.linkCacheHours = parsed;
+						await this.plugin.saveSettings();
+					}
+				}));
+
+		// Pipeline Section
+		containerEl.createEl('h3', { text: 'Pipelines' });
+
+		new Setting(containerEl)
+			.setName('When a Block Fails')
+			.setDesc('Stop the whole pipeline, or keep running the blocks that don\'t depend on the failed one')
 			.addDropdown(dropdown => dropdown
-				.addOption('gpt-3.5-turbo', 'GPT-3.5 Turbo')
-				.addOption('gpt-4', 'GPT-4')
-				.addOption('claude-3-sonnet', 'Claude 3 Sonnet')
-				.addOption('claude-3-haiku', 'Claude 3 Haiku')
-				.setValue(this.plugin.settings.defaultModel)
+				.addOption('stop', 'Stop the pipeline')
+				.addOption('continue', 'Continue with independent blocks')
+				.setValue(this.plugin.settings.pipelineErrorPolicy)
+				.onChange(async (value) => {
+					this.plugin.settings.pipelineErrorPolicy = value as PipelineErrorPolicy;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Re-run Stale Blocks Automatically')
+			.setDesc('When a connected node or note changes, re-run the blocks it made stale. Each re-run is a new paid call.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.autoRerunStale)
 				.onChange(async (value) => {
-					this.plugin.settings.defaultModel = value;
+					this.plugin.settings.autoRerunStale = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Re-run Delay (seconds)')
+			.setDesc('How long edits must pause before stale blocks are re-run')
+			.addText(text => text
+				.setValue(String(this.plugin.settings.autoRerunDelaySeconds))
+				.onChange(async (value: string) => {
+					const parsed = parseFloat(value);
+					if (!isNaN(parsed) && parsed >= 1) {
+						this.plugin.settings.autoRerunDelaySeconds = parsed;
+						await this.plugin.saveSettings();
+					}
+				}));
+
+		// Batch Section
+		containerEl.createEl('h3', { text: 'Batch Runs' });
+
+		new Setting(containerEl)
+			.setName('Items at a Time')
+			.setDesc('How many group members a batch block runs on at once')
+			.addText(text => text
+				.setValue(String(this.plugin.settings.batchConcurrency))
+				.onChange(async (value: string) => {
+					const parsed = parseInt(value);
+					if (!isNaN(parsed) && parsed >= 1) {
+						this.plugin.settings.batchConcurrency = parsed;
+						await this.plugin.saveSettings();
+					}
+				}));
+
+		// Output History Section
+		containerEl.createEl('h3', { text: 'Output History' });
+
+		new Setting(containerEl)
+			.setName('Versions to Keep')
+			.setDesc('How many earlier outputs each output node remembers when its block is re-run (0 keeps none)')
+			.addText(text => text
+				.setValue(String(this.plugin.settings.outputHistoryLimit))
+				.onChange(async (value: string) => {
+					const parsed = parseInt(value);
+					if (!isNaN(parsed) && parsed >= 0) {
+						this.plugin.settings.outputHistoryLimit = parsed;
+						await this.plugin.saveSettings();
+					}
+				}));
+
+		new Setting(containerEl)
+			.setName('Export Folder')
+			.setDesc('Where "Export to note" saves output nodes, with their provenance as properties')
+			.addText(text => text
+				.setPlaceholder('Living Canvas Exports')
+				.setValue(this.plugin.settings.exportFolder)
+				.onChange(async (value: string) => {
+					this.plugin.settings.exportFolder = value.trim();
 					await this.plugin.saveSettings();
 				}));
 
@@ -167,7 +536,159 @@ class LivingCanvasSettingTab extends PluginSettingTab {
 				.onClick(async () => {
 					await this.plugin.blockManager.initialize();
 					new Notice('Blocks reloaded successfully');
+					await this.plugin.uiManager.reviewBlockPermissions();
+					this.display();
+				}));
+
+		new Setting(containerEl)
+			.setName('Executor Time Limit')
+			.setDesc('Seconds a block\'s executor may compute for each step before it is stopped. Time spent waiting for the model or notes doesn\'t count, but no step runs longer than 5 minutes in all.')
+			.addText(text => text
+				.setPlaceholder('10')
+				.setValue(String(this.plugin.settings.executorTimeoutSeconds))
+				.onChange(async (value) => {
+					const seconds = Number(value);
+					if (seconds > 0) {
+						this.plugin.settings.executorTimeoutSeconds = seconds;
+						await this.plugin.saveSettings();
+					}
+				}));
+
+		new Setting(containerEl)
+			.setName('Test Blocks')
+			.setDesc('Run the test cases in each block\'s tests.json against a mock model and show the results')
+			.addButton(button => button
+				.setButtonText('Run Tests')
+				.onClick(() => this.plugin.uiManager.showBlockTests(null)));
+
+		// Block Permissions Section
+		containerEl.createEl('h3', { text: 'Block Permissions' });
+
+		const blocksWithPermissions = this.plugin.blockManager.getAllBlocks().filter(block => block.permissions.length > 0);
+		if (blocksWithPermissions.length === 0) {
+			containerEl.createEl('p', { text: 'No installed block asks for permissions.', cls: 'setting-item-description' });
+		}
+		for (const block of blocksWithPermissions) {
+			const granted = this.plugin.blockManager.getGrantedPermissions(block);
+			for (const permission of block.permissions) {
+				new Setting(containerEl)
+					.setName(`${block.name}: ${BLOCK_PERMISSIONS[permission]}`)
+					.setDesc(`${block.id} by ${block.author}`)
+					.addToggle(toggle => toggle
+						.setValue(granted.includes(permission))
+						.onChange(async (value) => {
+							await this.plugin.blockManager.setPermission(block.id, permission, value);
+						}));
+			}
+		}
+	}
+
+	private displayProvider(containerEl: HTMLElement, provider: ProviderConfig): void {
+		const typeLabel = this.plugin.providerRegistry.getType(provider.type)?.label || provider.type;
+
+		new Setting(containerEl)
+			.setName(provider.name)
+			.setDesc(`${typeLabel} provider (id: ${provider.id})`)
+			.setHeading()
+			.addButton(button => button
+				.setButtonText('Remove')
+				.setWarning()
+				.onClick(async () => {
+					this.plugin.settings.providers = this.plugin.settings.providers.filter(p => p !== provider);
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		new Setting(containerEl)
+			.setName('Name')
+			.addText(text => text
+				.setValue(provider.name)
+				.onChange(async (value: string) => {
+					provider.name = value;
+					await this.plugin.saveSettings();
 				}));
+
+		if (provider.type === 'mock') {
+			this.displayMockProvider(containerEl, provider);
+		} else {
+			new Setting(containerEl)
+				.setName('Base URL')
+				.setDesc('API root, e.g. https://api.openai.com/v1 or http://localhost:11434/v1')
+				.addText(text => text
+					.setValue(provider.baseUrl)
+					.onChange(async (value: string) => {
+						provider.baseUrl = value.trim();
+						await this.plugin.saveSettings();
+					}));
+
+			new Setting(containerEl)
+				.setName('Authentication')
+				.addDropdown(dropdown => {
+					for (const [scheme, label] of Object.entries(AUTH_SCHEMES)) {
+						dropdown.addOption(scheme, label);
+					}
+					dropdown
+						.setValue(provider.authScheme)
+						.onChange(async (value) => {
+							provider.authScheme = value as AuthScheme;
+							await this.plugin.saveSettings();
+						});
+				});
+
+			new Setting(containerEl)
+				.setName('API Key')
+				.addText(text => text
+					.setPlaceholder('sk-...')
+					.setValue(provider.apiKey)
+					.onChange(async (value: string) => {
+						provider.apiKey = value;
+						await this.plugin.saveSettings();
+					}));
+		}
+
+		new Setting(containerEl)
+			.setName('Models')
+			.setDesc('Comma-separated model names served by this provider')
+			.addText(text => text
+				.setPlaceholder('llama3, mistral')
+				.setValue(provider.models.join(', '))
+				.onChange(async (value: string) => {
+					provider.models = value.split(',').map(model => model.trim()).filter(model => model.length > 0);
+					await this.plugin.saveSettings();
+				}));
+	}
+
+	// The mock provider has no endpoint or key, only where fixtures live and what 'replay' records from
+	private displayMockProvider(containerEl: HTMLElement, provider: ProviderConfig): void {
+		new Setting(containerEl)
+			.setName('Fixture Folder')
+			.setDesc('Vault folder of canned responses, one <prompt hash>.json file per prompt, used by the fixture and replay models')
+			.addText(text => text
+				.setPlaceholder(DEFAULT_FIXTURE_FOLDER)
+				.setValue(provider.fixtureFolder || '')
+				.onChange(async (value: string) => {
+					provider.fixtureFolder = value.trim() || undefined;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Record From')
+			.setDesc('Model that the replay model calls, once, for prompts with no fixture yet')
+			.addDropdown(dropdown => {
+				dropdown.addOption('', 'Don\'t record');
+				const mockIds = this.plugin.settings.providers.filter(p => p.type === 'mock').map(p => p.id);
+				for (const model of this.plugin.providerRegistry.listModels()) {
+					if (!mockIds.some(id => model.ref.startsWith(`${id}:`))) {
+						dropdown.addOption(model.ref, model.label);
+					}
+				}
+				dropdown
+					.setValue(provider.recordModel || '')
+					.onChange(async (value) => {
+						provider.recordModel = value || undefined;
+						await this.plugin.saveSettings();
+					});
+			});
 	}
 }
 
@@ -1,6 +1,25 @@
-import { Notice, TFile, App, Modal } from 'obsidian';
+import { Notice, TFile, App, Modal, normalizePath, stringifyYaml } from 'obsidian';
 import { LivingCanvasPlugin } from '../main';
-import { CanvasNode } from './CanvasManager';
+import { CanvasData, CanvasNode, CanvasTransaction, LivingCanvasState } from './CanvasManager';
+import { beginOutputVersion, commitOutputVersion, restorePreviousVersion, restoreVersion } from './OutputHistory';
+import { hashRunInputs } from './StaleTracker';
+import { ExecutionResult } from './BlockExecutor';
+import { Provenance, provenanceFrontmatter, SourceRef } from './Provenance';
+
+export interface RunOptions {
+	// Ignore any cached response and call the model again
+	forceRefresh?: boolean;
+	// Canvas to run in; defaults to the active one
+	canvasFile?: TFile;
+	// Skip the success notice, e.g. for each step of a pipeline
+	quiet?: boolean;
+	// Write to a new output node instead of updating the block's existing one
+	fork?: boolean;
+	// Run with this config instead of the block's saved one, which is left unchanged
+	config?: Record<string, unknown>;
+}
+
+export type RunOutcome = 'complete' | 'error' | 'cancelled';
 
 export class ActionHandler {
 	private plugin: LivingCanvasPlugin;
@@ -18,88 +37,333 @@ export class ActionHandler {
 	}
 
 	// Handle running a block
-	async handleRunBlock(nodeId: string): Promise<void> {
+	async handleRunBlock(nodeId: string, options: RunOptions = {}): Promise<RunOutcome> {
 		this.plugin.debug(`Handling run block for node: ${nodeId}`);
 
 		try {
 			// Get the current canvas file
-			const canvasFile = this.plugin.getCurrentCanvasFile();
+			const canvasFile = options.canvasFile || this.plugin.getCurrentCanvasFile();
 			if (!canvasFile) {
 				new Notice('No canvas file is currently open');
-				return;
+				return 'error';
 			}
 
 			// Get the node
 			const node = await this.plugin.canvasManager.getNode(nodeId, canvasFile);
 			if (!node || !node.livingCanvas) {
 				new Notice('Selected node is not a Living Canvas block');
-				return;
+				return 'error';
 			}
+			// A one-off config replaces the saved one for this run only
+			const livingCanvas = options.config ? { ...node.livingCanvas, config: options.config } : node.livingCanvas;
 
-			// Update status to processing
-			await this.plugin.canvasManager.updateNodeData(nodeId, {
-				livingCanvas: {
-					...node.livingCanvas,
-					status: 'processing'
-				}
+			if (this.plugin.runManager.isRunning(nodeId, canvasFile.path)) {
+				new Notice('This block is already running');
+				return 'error';
+			}
+			const blockName = this.plugin.blockManager.getBlock(livingCanvas.blockType)?.name || livingCanvas.blockType;
+			const run = this.plugin.runManager.start(nodeId, canvasFile.path, blockName);
+
+			try {
+				return await this.executeRun(node, livingCanvas, canvasFile, run.controller.signal, options);
+			} finally {
+				this.plugin.runManager.finish(run.id);
+			}
+
+		} catch (error) {
+			this.plugin.debug('Error in handleRunBlock:', error);
+			new Notice(`Error executing block: ${error instanceof Error ? error.message : 'Unknown error'}`);
+			return 'error';
+		}
+	}
+
+	private async executeRun(
+		node: CanvasNode,
+		livingCanvas: LivingCanvasState,
+		canvasFile: TFile,
+		signal: AbortSignal,
+		options: RunOptions
+	): Promise<RunOutcome> {
+		const nodeId = node.id;
+
+		// Get source text from connected text, note, link and group nodes; labelled edges become named inputs
+		const blockDefinition = this.plugin.blockManager.getBlock(livingCanvas.blockType);
+		const declaredInputs = (blockDefinition?.inputs || []).map(input => input.name);
+		const inputs = await this.plugin.sourceResolver.getInputs(nodeId, canvasFile, declaredInputs);
+		const inputText = inputs.text;
+		if (!inputText.trim()) {
+			await this.plugin.canvasManager.updateLivingCanvas(nodeId, {
+				status: 'error',
+				error: 'No input text found. Connect text, note, link or group nodes to this block.',
+				statusMessage: undefined,
+				startedAt: undefined
 			}, canvasFile);
+			new Notice('No input text found. Connect text, note, link or group nodes to this block.');
+			return 'error';
+		}
+		// Recorded on success so later edits upstream can be detected. It uses the saved config, which
+		// is what stale checks compare with, even when this run has a one-off config.
+		const inputHash = await hashRunInputs(livingCanvas.blockType, node.livingCanvas?.config, inputs);
+
+		// In batch mode a connected group's members are each run separately
+		if (livingCanvas.config?.batchGroups === true) {
+			const batch = await this.plugin.sourceResolver.getBatchInputs(nodeId, canvasFile, declaredInputs);
+			if (batch) {
+				return this.plugin.batchRunner.run(node, livingCanvas, batch, inputHash, canvasFile, signal, options);
+			}
+		}
 
-			// Get source text
-			const inputText = await this.plugin.canvasManager.getSourceText(nodeId, canvasFile);
-			if (!inputText.trim()) {
-				await this.plugin.canvasManager.updateNodeData(nodeId, {
-					livingCanvas: {
-						...node.livingCanvas,
-						status: 'error',
-						error: 'No input text found. Connect text nodes to this block.'
-					}
-				}, canvasFile);
-				new Notice('No input text found. Connect text nodes to this block.');
-				return;
+		// Mark the block as processing and prepare its output node in one write, so streamed text
+		// has somewhere to land. A re-run reuses the block's output node, moving the old text into
+		// its history; the first run or a fork creates a new node and edge. Structured blocks don't
+		// stream, so the placeholder stays until the JSON is validated.
+		const placeholder = blockDefinition?.outputSchema ? '⏳ Generating structured output…' : '⏳ Generating…';
+		const startedAt = Date.now();
+		const target = await this.plugin.canvasManager.transaction(transaction => {
+			transaction.updateLivingCanvas(nodeId, {
+				status: 'processing',
+				error: undefined,
+				statusMessage: undefined,
+				startedAt
+			});
+
+			const existingId = transaction.getNode(nodeId)?.livingCanvas?.outputNodeId;
+			if (!options.fork && existingId && beginOutputVersion(transaction, existingId, placeholder)) {
+				if (!transaction.data.edges.some(edge => edge.fromNode === nodeId && edge.toNode === existingId)) {
+					transaction.addEdge(nodeId, existingId);
+				}
+				return { outputNodeId: existingId, created: false };
 			}
 
-			// Execute the block
-			const result = await this.plugin.blockExecutor.executeBlock(
-				node.livingCanvas.blockType,
-				inputText,
-				node.livingCanvas.config
-			);
+			const outputNodeId = transaction.addNode(this.buildOutputNode(placeholder, transaction.getNode(nodeId) || node, transaction.data));
+			transaction.addEdge(nodeId, outputNodeId);
+			return { outputNodeId, created: true };
+		}, canvasFile);
+		const stream = new StreamingOutput(this.plugin, target?.outputNodeId ?? null, target?.created ?? true, canvasFile);
+
+		// Show progress in the output node and on the block itself. Status writes are chained so
+		// they land in order, and the final write waits for them.
+		let statusWrites: Promise<unknown> = Promise.resolve();
+		const showStatus = (message: string) => {
+			stream.reset(`⏳ ${message}`);
+			statusWrites = statusWrites
+				.then(() => this.plugin.canvasManager.updateLivingCanvas(nodeId, { statusMessage: message }, canvasFile))
+				.catch(error => this.plugin.debug('Error showing block status:', error));
+		};
 
-			if (result.success && result.output) {
-				// Create output node
-				const outputNodeId = await this.createOutputNode(result.output, node, canvasFile);
-				
+		// Execute the block
+		const result = await this.plugin.blockExecutor.executeBlock(
+			livingCanvas.blockType,
+			inputText,
+			livingCanvas.config,
+			{
+				onToken: (token) => stream.append(token),
+				onRetry: (retry) => {
+					const seconds = Math.ceil(retry.delayMs / 1000);
+					showStatus(`Retrying in ${seconds}s (attempt ${retry.attempt} of ${retry.maxAttempts}): ${retry.error}`);
+				},
+				onProgress: showStatus,
+				inputs: inputs.named,
+				forceRefresh: options.forceRefresh,
+				canvasPath: canvasFile.path,
+				nodeId,
+				signal
+			}
+		);
+		await stream.flush();
+		await statusWrites;
+
+		if (result.success) {
+			// Replace the streamed text with the final response, keeping structured data alongside it,
+			// and mark the block complete in the same write. An empty response is still a result.
+			await stream.finish(result.output ?? '', (transaction, outputNodeId) => {
 				if (outputNodeId) {
-					// Create edge from block to output
-					await this.plugin.canvasManager.createEdge(nodeId, outputNodeId, canvasFile);
+					// A new node was placed at a default size; now that the text is known, size it to fit
+					if (target?.created) {
+						this.plugin.layoutService.fitToText(transaction, outputNodeId, transaction.getNode(nodeId));
+					}
+					transaction.updateOutput(outputNodeId, {
+						blockNodeId: nodeId,
+						data: result.data,
+						createdAt: Date.now(),
+						provenance: this.buildProvenance(nodeId, livingCanvas, result, inputs.sources, inputHash, canvasFile, startedAt)
+					});
 				}
+				transaction.updateLivingCanvas(nodeId, {
+					status: 'complete',
+					error: undefined,
+					statusMessage: undefined,
+					startedAt: undefined,
+					outputNodeId: outputNodeId || livingCanvas.outputNodeId,
+					inputHash
+				});
+			});
 
-				// Update block status to complete
-				await this.plugin.canvasManager.updateNodeData(nodeId, {
-					livingCanvas: {
-						...node.livingCanvas,
-						status: 'complete',
-						error: undefined
-					}
-				}, canvasFile);
+			if (!options.quiet) {
+				new Notice(result.cached ? 'Block executed successfully (cached response)' : 'Block executed successfully');
+			}
+			return 'complete';
+		} else if (result.cancelled) {
+			const markIdle = (transaction: CanvasTransaction) => transaction.updateLivingCanvas(nodeId, {
+				status: 'idle',
+				error: undefined,
+				statusMessage: undefined,
+				startedAt: undefined
+			});
 
-				new Notice('Block executed successfully');
+			// Keep what arrived before the cancel, or drop the empty placeholder
+			if (result.output) {
+				await stream.finish(`${result.output}\n\n⏹ Cancelled`, markIdle);
 			} else {
-				// Update block status to error
-				await this.plugin.canvasManager.updateNodeData(nodeId, {
-					livingCanvas: {
-						...node.livingCanvas,
-						status: 'error',
-						error: result.error || 'Unknown error occurred'
-					}
-				}, canvasFile);
+				await stream.discard(markIdle);
+			}
+
+			new Notice('Block run cancelled');
+			return 'cancelled';
+		} else {
+			// Update block status to error
+			const markError = (transaction: CanvasTransaction) => transaction.updateLivingCanvas(nodeId, {
+				status: 'error',
+				error: result.error || 'Unknown error occurred',
+				statusMessage: undefined,
+				startedAt: undefined
+			});
 
-				new Notice(`Block execution failed: ${result.error}`);
+			// Keep whatever arrived before the failure, or drop the empty placeholder
+			if (result.output) {
+				await stream.finish(`${result.output}\n\n⚠️ Generation interrupted: ${result.error || 'Unknown error occurred'}`, markError);
+			} else {
+				await stream.discard(markError);
 			}
 
+			new Notice(`Block execution failed: ${result.error}`);
+			return 'error';
+		}
+	}
+
+	// What produced a successful run's output, stored on the output node
+	buildProvenance(
+		blockNodeId: string,
+		livingCanvas: LivingCanvasState,
+		result: ExecutionResult,
+		sources: SourceRef[],
+		inputHash: string,
+		canvasFile: TFile,
+		startedAt: number,
+		batchMemberId?: string
+	): Provenance {
+		const block = this.plugin.blockManager.getBlock(livingCanvas.blockType);
+		return {
+			blockNodeId,
+			blockType: livingCanvas.blockType,
+			blockName: block?.name,
+			blockVersion: block?.version,
+			config: { ...(livingCanvas.config || {}) },
+			model: result.model,
+			params: result.params,
+			inputHash,
+			promptHash: result.promptHash,
+			sources,
+			batchMemberId,
+			canvasPath: canvasFile.path,
+			startedAt,
+			completedAt: Date.now(),
+			usage: result.usage,
+			cached: !!result.cached,
+			pluginVersion: this.plugin.manifest.version
+		};
+	}
+
+	// Run the block again with the settings an output was generated with, leaving the block's
+	// saved settings as they are
+	async handleRerunFromProvenance(outputNodeId: string, canvasFile: TFile): Promise<RunOutcome> {
+		const provenance = (await this.plugin.canvasManager.getNode(outputNodeId, canvasFile))?.livingCanvasOutput?.provenance;
+		if (!provenance) {
+			new Notice('This output has no provenance record');
+			return 'error';
+		}
+
+		// The model is pinned too, in case the default model has changed since
+		const config = { ...provenance.config };
+		if (typeof config.model !== 'string' || !config.model.trim()) {
+			config.model = provenance.model;
+		}
+		const block = await this.plugin.canvasManager.getNode(provenance.blockNodeId, canvasFile);
+		if (block?.livingCanvas?.blockType !== provenance.blockType) {
+			new Notice('The block that generated this output is no longer on the canvas');
+			return 'error';
+		}
+		return this.handleRunBlock(provenance.blockNodeId, { canvasFile, config });
+	}
+
+	// Save an output node as a note, with its provenance as frontmatter properties
+	async handleExportOutput(outputNodeId: string, canvasFile: TFile): Promise<string | null> {
+		const node = await this.plugin.canvasManager.getNode(outputNodeId, canvasFile);
+		if (!node?.livingCanvasOutput) {
+			new Notice('Select an output node to export');
+			return null;
+		}
+
+		const provenance = node.livingCanvasOutput.provenance;
+		const frontmatter = provenance
+			? provenanceFrontmatter(provenance)
+			: { 'ai-generated': true, 'generated-by': 'Living Canvas', 'source-canvas': `[[${canvasFile.path}]]` };
+		const content = `---\n${stringifyYaml(frontmatter)}---\n\n${node.text || ''}\n`;
+
+		const storage = this.plugin.host.storage;
+		const folder = normalizePath(this.plugin.settings.exportFolder || '/');
+		const date = new Date(provenance?.completedAt ?? node.livingCanvasOutput.createdAt ?? Date.now()).toISOString().slice(0, 10);
+		const name = `${provenance?.blockName || provenance?.blockType || 'Output'} ${date}`.replace(/[\\/:*?"<>|#^[\]]/g, '-');
+		const prefix = folder === '/' ? '' : `${folder}/`;
+		let path = `${prefix}${name}.md`;
+		for (let i = 1; await storage.exists(path); i++) {
+			path = `${prefix}${name} (${i}).md`;
+		}
+
+		try {
+			if (prefix && !(await storage.exists(folder))) {
+				await storage.mkdir(folder);
+			}
+			await storage.write(path, content);
+			new Notice(`Output exported to ${path}`);
+			return path;
 		} catch (error) {
-			this.plugin.debug('Error in handleRunBlock:', error);
-			new Notice(`Error executing block: ${error instanceof Error ? error.message : 'Unknown error'}`);
+			this.plugin.debug('Error exporting output:', error);
+			new Notice(`Failed to export output: ${error instanceof Error ? error.message : error}`);
+			return null;
+		}
+	}
+
+	// Make an earlier version of an output node current again
+	async handleRestoreOutputVersion(outputNodeId: string, index: number, canvasFile: TFile): Promise<boolean> {
+		const restored = await this.plugin.canvasManager.transaction(
+			transaction => restoreVersion(transaction, outputNodeId, index, this.plugin.settings.outputHistoryLimit),
+			canvasFile
+		);
+		new Notice(restored ? 'Output version restored' : 'Could not restore this version');
+		return restored === true;
+	}
+
+	// Copy a version of an output into a new, independent text node next to it
+	async handleCopyOutputVersion(outputNodeId: string, text: string, canvasFile: TFile): Promise<string | null> {
+		const copyId = await this.plugin.canvasManager.transaction(transaction => {
+			const outputNode = transaction.getNode(outputNodeId);
+			if (!outputNode) return null;
+			const size = this.plugin.layoutService.sizeForText(text);
+			const position = this.plugin.layoutService.placeNear(transaction.data, outputNode, size);
+			const copyId = transaction.addNode({ type: 'text', text, ...position, ...size });
+			transaction.addEdge(outputNodeId, copyId);
+			return copyId;
+		}, canvasFile);
+		new Notice(copyId ? 'Version copied to a new node' : 'Could not copy this version');
+		return copyId;
+	}
+
+	// Cancel the run for a block, if one is active
+	handleCancelRun(nodeId: string): void {
+		const canvasFile = this.plugin.getCurrentCanvasFile();
+		if (!this.plugin.runManager.cancelNode(nodeId, canvasFile?.path)) {
+			new Notice('This block is not running');
 		}
 	}
 
@@ -114,24 +378,20 @@ export class ActionHandler {
 				return; // User cancelled
 			}
 
+			// Get current canvas file
+			const canvasFile = this.plugin.getCurrentCanvasFile();
+
 			// Execute clarification
-			const result = await this.plugin.blockExecutor.executeClarification(selectedText, question);
+			const result = await this.plugin.blockExecutor.executeClarification(selectedText, question, canvasFile?.path);
 
 			if (result.success && result.output) {
-				// Get current canvas file
-				const canvasFile = this.plugin.getCurrentCanvasFile();
 				if (!canvasFile) {
 					new Notice('No canvas file is currently open');
 					return;
 				}
 
-				// Create answer node
-				const answerNodeId = await this.createAnswerNode(result.output, canvasFile);
-				
-				if (answerNodeId && sourceNodeId) {
-					// Create edge from source to answer
-					await this.plugin.canvasManager.createEdge(sourceNodeId, answerNodeId, canvasFile);
-				}
+				// Create answer node next to the source, connected to it
+				await this.createAnswerNode(result.output, canvasFile, sourceNodeId);
 
 				new Notice('Clarification completed');
 			} else {
@@ -144,34 +404,39 @@ export class ActionHandler {
 		}
 	}
 
-	// Create an output node for block results
-	private async createOutputNode(output: string, parentNode: CanvasNode, canvasFile: TFile): Promise<string | null> {
-		const position = this.plugin.canvasManager.calculateNewNodePosition(parentNode);
+	// Build an output node for a run's results, in free space next to the block
+	private buildOutputNode(output: string, parentNode: CanvasNode, data: CanvasData): Omit<CanvasNode, 'id'> {
+		const size = { width: 300, height: 200 };
+		const position = this.plugin.layoutService.placeNear(data, parentNode, size);
 		
-		const outputNode = {
+		return {
 			type: 'text',
 			text: output,
-			x: position.x,
-			y: position.y,
-			width: 300,
-			height: 200
+			...position,
+			...size,
+			livingCanvasOutput: {
+				blockNodeId: parentNode.id,
+				provisional: true
+			}
 		};
-
-		return await this.plugin.canvasManager.createNode(outputNode, canvasFile);
 	}
 
-	// Create an answer node for clarifications
-	private async createAnswerNode(answer: string, canvasFile: TFile): Promise<string | null> {
-		const answerNode = {
-			type: 'text',
-			text: `💡 AI Clarification\n\n${answer}`,
-			x: 100,
-			y: 100,
-			width: 350,
-			height: 250
-		};
-
-		return await this.plugin.canvasManager.createNode(answerNode, canvasFile);
+	// Create an answer node for clarifications, next to the node it explains when there is one
+	private async createAnswerNode(answer: string, canvasFile: TFile, sourceNodeId?: string): Promise<string | null> {
+		const text = `💡 AI Clarification\n\n${answer}`;
+		const size = this.plugin.layoutService.sizeForText(text, 350);
+
+		return await this.plugin.canvasManager.transaction(transaction => {
+			const source = sourceNodeId ? transaction.getNode(sourceNodeId) : undefined;
+			const position = source
+				? this.plugin.layoutService.placeNear(transaction.data, source, size)
+				: this.plugin.layoutService.placeNewNode(transaction.data, size, canvasFile);
+			const answerNodeId = transaction.addNode({ type: 'text', text, ...position, ...size });
+			if (source) {
+				transaction.addEdge(source.id, answerNodeId);
+			}
+			return answerNodeId;
+		}, canvasFile);
 	}
 
 	// Show modal to get user's question
@@ -185,6 +450,104 @@ export class ActionHandler {
 	}
 }
 
+// Extra changes written together with the output node's final state
+type OutputUpdate = (transaction: CanvasTransaction, outputNodeId: string | null) => void;
+
+// Writes streamed tokens into an output node, throttling canvas writes
+class StreamingOutput {
+	private static readonly FLUSH_INTERVAL_MS = 500;
+
+	private plugin: LivingCanvasPlugin;
+	private nodeId: string | null;
+	// False when the run reuses an existing output node
+	private created: boolean;
+	private canvasFile: TFile;
+	private text = '';
+	private timer: number | null = null;
+	private closed = false;
+	// Writes are chained so they land in order and never overlap
+	private pending: Promise<unknown> = Promise.resolve();
+
+	constructor(plugin: LivingCanvasPlugin, nodeId: string | null, created: boolean, canvasFile: TFile) {
+		this.plugin = plugin;
+		this.nodeId = nodeId;
+		this.created = created;
+		this.canvasFile = canvasFile;
+	}
+
+	append(token: string): void {
+		if (this.closed) return;
+		this.text += token;
+		if (this.timer === null) {
+			this.timer = window.setTimeout(() => {
+				this.timer = null;
+				this.write(this.text);
+			}, StreamingOutput.FLUSH_INTERVAL_MS);
+		}
+	}
+
+	// Drop text from a failed attempt and show a placeholder until new tokens arrive
+	reset(placeholder: string): void {
+		if (this.closed) return;
+		if (this.timer !== null) {
+			window.clearTimeout(this.timer);
+			this.timer = null;
+		}
+		this.text = '';
+		this.write(placeholder);
+	}
+
+	// Wait for any scheduled write to land
+	async flush(): Promise<void> {
+		if (this.timer !== null) {
+			window.clearTimeout(this.timer);
+			this.timer = null;
+			this.write(this.text);
+		}
+		await this.pending;
+	}
+
+	// Write the final text, moving the text from before the run into the history; `update` runs
+	// in the same transaction, e.g. to set the block's status
+	async finish(finalText: string, update?: OutputUpdate): Promise<void> {
+		await this.flush();
+		this.closed = true;
+		this.write(finalText, (transaction, nodeId) => {
+			if (nodeId) commitOutputVersion(transaction, nodeId, this.plugin.settings.outputHistoryLimit);
+			update?.(transaction, nodeId);
+		});
+		await this.pending;
+	}
+
+	// Remove a new output node, or put back the previous text of a reused one;
+	// `update` runs in the same transaction
+	async discard(update?: OutputUpdate): Promise<void> {
+		await this.flush();
+		this.closed = true;
+		const nodeId = this.nodeId;
+		this.pending = this.pending.then(() => this.plugin.canvasManager.transaction(transaction => {
+			if (nodeId && this.created) {
+				transaction.removeNode(nodeId);
+			} else if (nodeId) {
+				restorePreviousVersion(transaction, nodeId);
+			}
+			update?.(transaction, this.created ? null : nodeId);
+		}, this.canvasFile));
+		await this.pending;
+	}
+
+	private write(text: string, update?: OutputUpdate): void {
+		const nodeId = this.nodeId;
+		if (!nodeId && !update) return;
+		this.pending = this.pending
+			.then(() => this.plugin.canvasManager.transaction(transaction => {
+				if (nodeId) transaction.updateNode(nodeId, { text });
+				update?.(transaction, nodeId);
+			}, this.canvasFile))
+			.catch((error) => this.plugin.debug('Error writing streamed output:', error));
+	}
+}
+
 // Simple modal for getting user's question
 class QuestionModal {
 	private app: App;
@@ -0,0 +1,295 @@
+import { Notice, TFile } from 'obsidian';
+import { LivingCanvasPlugin } from '../main';
+import { RunOptions, RunOutcome } from './ActionHandler';
+import { CanvasNode, CanvasTransaction, LivingCanvasState } from './CanvasManager';
+import { beginOutputVersion, commitOutputVersion, restorePreviousVersion } from './OutputHistory';
+import { addUsage, emptyUsage, Provenance } from './Provenance';
+import { BatchInputs, BatchItem } from './SourceResolver';
+import { hashRunInputs } from './StaleTracker';
+
+const QUEUED_PLACEHOLDER = '⏳ Queued…';
+
+// Where one member's result goes
+interface BatchTarget {
+	outputNodeId: string;
+	// False when an earlier batch run's node is reused
+	created: boolean;
+}
+
+interface ItemResult {
+	item: BatchItem;
+	output?: string;
+	data?: unknown;
+	error?: string;
+	cancelled?: boolean;
+	provenance?: Provenance;
+}
+
+// Runs a block once per member of a connected group, a few at a time. Each member gets its own
+// output node beside the group; the block shows progress and can collect every result in one node.
+export class BatchRunner {
+	private plugin: LivingCanvasPlugin;
+
+	constructor(plugin: LivingCanvasPlugin) {
+		this.plugin = plugin;
+	}
+
+	async run(
+		node: CanvasNode,
+		livingCanvas: LivingCanvasState,
+		batch: BatchInputs,
+		inputHash: string,
+		canvasFile: TFile,
+		signal: AbortSignal,
+		options: RunOptions
+	): Promise<RunOutcome> {
+		const nodeId = node.id;
+		const total = batch.items.length;
+		if (total === 0) {
+			await this.plugin.canvasManager.updateLivingCanvas(nodeId, {
+				status: 'error',
+				error: 'The connected group has no nodes to run on.',
+				statusMessage: undefined,
+				startedAt: undefined
+			}, canvasFile);
+			new Notice('The connected group has no nodes to run on');
+			return 'error';
+		}
+
+		// Mark the block as processing and give every member a queued output node in one write
+		const startedAt = Date.now();
+		const targets = await this.plugin.canvasManager.transaction(transaction => {
+			transaction.updateLivingCanvas(nodeId, {
+				status: 'processing',
+				error: undefined,
+				statusMessage: `Batch: 0 of ${total} done`,
+				startedAt
+			});
+			const targets = new Map<string, BatchTarget>();
+			for (const item of batch.items) {
+				targets.set(item.memberId, this.prepareOutput(transaction, nodeId, batch.groupId, item, options));
+			}
+			return targets;
+		}, canvasFile);
+		if (!targets) {
+			return 'error';
+		}
+
+		const results: ItemResult[] = [];
+		let next = 0;
+		const worker = async () => {
+			while (next < total && !signal.aborted) {
+				const item = batch.items[next++];
+				const result = await this.runItem(nodeId, livingCanvas, item, canvasFile, signal, options);
+				results.push(result);
+				await this.writeResult(nodeId, batch.groupId, result, targets.get(item.memberId), results.length, total, canvasFile);
+			}
+		};
+		const concurrency = Math.max(1, Math.min(this.plugin.settings.batchConcurrency, total));
+		await Promise.all(Array.from({ length: concurrency }, worker));
+
+		// Members that never started because the run was cancelled
+		const started = new Set(results.map(result => result.item.memberId));
+		const skipped = batch.items.filter(item => !started.has(item.memberId));
+		const completed = batch.items
+			.map(item => results.find(result => result.item.memberId === item.memberId))
+			.filter((result): result is ItemResult => !!result?.output);
+		const failures = results.filter(result => result.error);
+		const failed = failures.length;
+		const cancelled = signal.aborted;
+
+		await this.plugin.canvasManager.transaction(transaction => {
+			for (const item of skipped) {
+				this.discardOutput(transaction, targets.get(item.memberId));
+			}
+
+			const aggregateId = livingCanvas.config?.batchAggregate === true && completed.length > 0
+				? this.writeAggregate(transaction, nodeId, completed, this.aggregateProvenance(completed, inputHash, startedAt), options)
+				: null;
+
+			if (cancelled) {
+				transaction.updateLivingCanvas(nodeId, { status: 'idle', error: undefined, statusMessage: undefined, startedAt: undefined });
+			} else if (failed > 0) {
+				transaction.updateLivingCanvas(nodeId, {
+					status: 'error',
+					error: `${failed} of ${total} batch items failed: ${failures.map(result => `${result.item.label}: ${result.error}`).join('; ')}`,
+					statusMessage: undefined,
+					startedAt: undefined,
+					outputNodeId: aggregateId || livingCanvas.outputNodeId
+				});
+			} else {
+				transaction.updateLivingCanvas(nodeId, {
+					status: 'complete',
+					error: undefined,
+					statusMessage: undefined,
+					startedAt: undefined,
+					outputNodeId: aggregateId || livingCanvas.outputNodeId,
+					inputHash
+				});
+			}
+		}, canvasFile);
+
+		if (cancelled) {
+			new Notice(`Batch cancelled: ${completed.length} of ${total} done`);
+			return 'cancelled';
+		}
+		if (failed > 0) {
+			new Notice(`Batch finished: ${failed} of ${total} items failed`);
+			return 'error';
+		}
+		if (!options.quiet) {
+			new Notice(`Batch finished: ${total} items`);
+		}
+		return 'complete';
+	}
+
+	private async runItem(blockNodeId: string, livingCanvas: LivingCanvasState, item: BatchItem, canvasFile: TFile, signal: AbortSignal, options: RunOptions): Promise<ItemResult> {
+		const startedAt = Date.now();
+		try {
+			const result = await this.plugin.blockExecutor.executeBlock(livingCanvas.blockType, item.inputs.text, livingCanvas.config, {
+				inputs: item.inputs.named,
+				forceRefresh: options.forceRefresh,
+				canvasPath: canvasFile.path,
+				nodeId: blockNodeId,
+				signal
+			});
+			if (result.cancelled) return { item, cancelled: true };
+			if (result.success && result.output) {
+				const inputHash = await hashRunInputs(livingCanvas.blockType, livingCanvas.config, item.inputs);
+				const provenance = this.plugin.actionHandler.buildProvenance(
+					blockNodeId, livingCanvas, result, item.inputs.sources, inputHash, canvasFile, startedAt, item.memberId);
+				return { item, output: result.output, data: result.data, provenance };
+			}
+			return { item, error: result.error || 'No output' };
+		} catch (error) {
+			return { item, error: error instanceof Error ? error.message : String(error) };
+		}
+	}
+
+	// Reuse this member's node from an earlier batch run, keeping its text in the history, or add
+	// one beside the group. New nodes go outside the group so they don't become members themselves.
+	private prepareOutput(transaction: CanvasTransaction, blockNodeId: string, groupId: string, item: BatchItem, options: RunOptions): BatchTarget {
+		const existing = transaction.data.nodes.find(node =>
+			node.livingCanvasOutput?.blockNodeId === blockNodeId && node.livingCanvasOutput.batchMemberId === item.memberId);
+		if (!options.fork && existing && beginOutputVersion(transaction, existing.id, QUEUED_PLACEHOLDER)) {
+			return { outputNodeId: existing.id, created: false };
+		}
+
+		const size = { width: 300, height: 200 };
+		const anchor = this.getAnchor(transaction, groupId, item.memberId);
+		const position = anchor
+			? this.plugin.layoutService.placeNear(transaction.data, anchor, size)
+			: { x: 0, y: 0 };
+		const outputNodeId = transaction.addNode({
+			type: 'text',
+			text: QUEUED_PLACEHOLDER,
+			...position,
+			...size,
+			livingCanvasOutput: { blockNodeId, batchMemberId: item.memberId, provisional: true }
+		});
+		transaction.addEdge(item.memberId, outputNodeId);
+		return { outputNodeId, created: true };
+	}
+
+	private async writeResult(
+		blockNodeId: string,
+		groupId: string,
+		result: ItemResult,
+		target: BatchTarget | undefined,
+		done: number,
+		total: number,
+		canvasFile: TFile
+	): Promise<void> {
+		await this.plugin.canvasManager.transaction(transaction => {
+			transaction.updateLivingCanvas(blockNodeId, { statusMessage: `Batch: ${done} of ${total} done` });
+			if (!target) return;
+
+			if (result.cancelled) {
+				this.discardOutput(transaction, target);
+				return;
+			}
+			// A failed item leaves a reused node's text as it was; the block lists the error instead
+			if (!result.output && !target.created && restorePreviousVersion(transaction, target.outputNodeId)) {
+				return;
+			}
+			transaction.updateNode(target.outputNodeId, { text: result.output ?? `⚠️ ${result.error}` });
+			commitOutputVersion(transaction, target.outputNodeId, this.plugin.settings.outputHistoryLimit);
+			if (result.output) {
+				transaction.updateOutput(target.outputNodeId, { data: result.data, createdAt: Date.now(), provenance: result.provenance });
+			}
+			if (target.created) {
+				this.plugin.layoutService.fitToText(transaction, target.outputNodeId, this.getAnchor(transaction, groupId, result.item.memberId));
+			}
+		}, canvasFile);
+	}
+
+	private discardOutput(transaction: CanvasTransaction, target: BatchTarget | undefined): void {
+		if (!target) return;
+		if (target.created) {
+			transaction.removeNode(target.outputNodeId);
+		} else {
+			restorePreviousVersion(transaction, target.outputNodeId);
+		}
+	}
+
+	// Every result under its member's label, in group order; structured results are kept as a list
+	private writeAggregate(
+		transaction: CanvasTransaction,
+		blockNodeId: string,
+		completed: ItemResult[],
+		provenance: Provenance | undefined,
+		options: RunOptions
+	): string | null {
+		const text = completed.map(result => `## ${result.item.label}\n\n${result.output}`).join('\n\n');
+		const data = completed.some(result => result.data !== undefined)
+			? completed.map(result => ({ label: result.item.label, data: result.data }))
+			: undefined;
+
+		const existing = transaction.data.nodes.find(node =>
+			node.livingCanvasOutput?.blockNodeId === blockNodeId && node.livingCanvasOutput.batchAggregate);
+		if (!options.fork && existing && beginOutputVersion(transaction, existing.id, text)) {
+			commitOutputVersion(transaction, existing.id, this.plugin.settings.outputHistoryLimit);
+			transaction.updateNode(existing.id, { text });
+			transaction.updateOutput(existing.id, { data, createdAt: Date.now(), provenance });
+			return existing.id;
+		}
+
+		const block = transaction.getNode(blockNodeId);
+		if (!block) return null;
+		const size = this.plugin.layoutService.sizeForText(text, 300);
+		const position = this.plugin.layoutService.placeNear(transaction.data, block, size);
+		const aggregateId = transaction.addNode({
+			type: 'text',
+			text,
+			...position,
+			...size,
+			livingCanvasOutput: { blockNodeId, data, createdAt: Date.now(), provenance, batchAggregate: true }
+		});
+		transaction.addEdge(blockNodeId, aggregateId);
+		return aggregateId;
+	}
+
+	// The aggregate's inputs are the members; tokens are the total over the batch
+	private aggregateProvenance(completed: ItemResult[], inputHash: string, startedAt: number): Provenance | undefined {
+		const records = completed.map(result => result.provenance).filter((record): record is Provenance => !!record);
+		if (records.length === 0) return undefined;
+		return {
+			...records[0],
+			inputHash,
+			sources: completed.map(result => ({ nodeId: result.item.memberId, label: result.item.label })),
+			batchMemberId: undefined,
+			startedAt,
+			completedAt: Date.now(),
+			usage: records.reduce((total, record) => addUsage(total, record.usage), emptyUsage()),
+			cached: records.every(record => record.cached)
+		};
+	}
+
+	// The member at the group's right edge, so outputs line up beside their member
+	private getAnchor(transaction: CanvasTransaction, groupId: string, memberId: string): CanvasNode | undefined {
+		const group = transaction.getNode(groupId);
+		const member = transaction.getNode(memberId);
+		if (!member) return undefined;
+		return group ? { ...member, x: group.x, width: group.width } : member;
+	}
+}
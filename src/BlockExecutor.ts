@@ -1,11 +1,103 @@
+import { normalizePath } from 'obsidian';
 import { LivingCanvasPlugin } from '../main';
+import { BlockDefinition } from './BlockManager';
+import { hashExecutor, SandboxedExecutor } from './ExecutorSandbox';
+import { AIProviderError, ChatMessage, ChatRequest, GenerationParams, isAbortError, RunCancelledError } from './providers/AIProvider';
+import { hashValue } from './hash';
+import { isPrivatePath } from './host/Host';
+import { JsonSchema, parseJsonResponse, renderJsonAsMarkdown, validateJsonSchema } from './JsonSchema';
+import { estimateRequestTokens, estimateTokens, splitIntoChunks } from './Chunker';
+import { emptyUsage, RunUsage } from './Provenance';
 
 export interface ExecutionResult {
 	success: boolean;
 	output?: string;
 	error?: string;
+	// The output came from the response cache rather than a new API call
+	cached?: boolean;
+	// The run was stopped through its AbortSignal
+	cancelled?: boolean;
+	// Parsed, schema-valid object for blocks that declare an outputSchema
+	data?: unknown;
+	// What the run used, for the output's provenance record
+	model?: string;
+	params?: GenerationParams;
+	promptHash?: string;
+	usage?: RunUsage;
 }
 
+export interface FewShotExample {
+	input: string;
+	output: string;
+}
+
+// What an executor may return instead of a plain prompt string
+export interface ExecutorRequest {
+	system?: string;
+	messages?: { role: 'system' | 'user' | 'assistant'; content: string }[];
+	examples?: FewShotExample[];
+	// Shorthand for a final user message
+	prompt?: string;
+}
+
+export interface RetryInfo {
+	// The attempt that is about to start, counting the first call as 1
+	attempt: number;
+	maxAttempts: number;
+	delayMs: number;
+	error: string;
+}
+
+export interface ExecuteOptions {
+	// Called with each piece of text as the model streams it back
+	onToken?: (token: string) => void;
+	// Called before waiting to retry; text streamed by the failed attempt should be discarded
+	onRetry?: (retry: RetryInfo) => void;
+	// Skip the cache lookup but still store the fresh response
+	forceRefresh?: boolean;
+	// Where the run happens, for the usage ledger
+	canvasPath?: string;
+	nodeId?: string;
+	// Aborting stops the request and any pending retry
+	signal?: AbortSignal;
+	// Progress of multi-step runs, e.g. "Processing chunk 2 of 5"
+	onProgress?: (message: string) => void;
+	// Text of each named input, keyed by edge label
+	inputs?: Record<string, string>;
+	// Set to false to leave the run out of the usage ledger, e.g. for block tests
+	recordUsage?: boolean;
+}
+
+interface CallOptions {
+	onToken?: (token: string) => void;
+	onRetry?: (retry: RetryInfo) => void;
+	useCache?: boolean;
+	// Responses this rejects aren't cached, e.g. JSON that doesn't match the block's schema
+	isCacheable?: (text: string) => boolean;
+	forceRefresh?: boolean;
+	signal?: AbortSignal;
+	// Recorded with the call's token usage; calls without one aren't recorded
+	usageContext?: { canvasPath: string; nodeId: string; blockType: string };
+	// Totals for the whole run, added to by each call
+	usage?: RunUsage;
+}
+
+interface CallResult {
+	text: string;
+	cached: boolean;
+}
+
+// Used when neither the node config nor the block definition sets a parameter
+const DEFAULT_GENERATION: GenerationParams = {
+	temperature: 0.7,
+	maxTokens: 2000
+};
+
+// Headroom for the inaccuracy of token estimates
+const CONTEXT_MARGIN_TOKENS = 256;
+// Below this a chunk holds too little text to be useful
+const MIN_CHUNK_TOKENS = 500;
+
 export class BlockExecutor {
 	private plugin: LivingCanvasPlugin;
 
@@ -13,9 +105,17 @@ export class BlockExecutor {
 		this.plugin = plugin;
 	}
 
-	async executeBlock(blockType: string, inputText: string, config: any): Promise<ExecutionResult> {
+	async executeBlock(blockType: string, inputText: string, config: Record<string, unknown>, options: ExecuteOptions = {}): Promise<ExecutionResult> {
 		this.plugin.debug(`Executing block: ${blockType}`);
 
+		// Text received so far, so a broken stream can still report what arrived
+		let streamed = '';
+		const onToken = (token: string) => {
+			streamed += token;
+			options.onToken?.(token);
+		};
+
+		let executor: SandboxedExecutor | null = null;
 		try {
 			// Get the block definition
 			const blockDefinition = this.plugin.blockManager.getBlock(blockType);
@@ -26,62 +126,363 @@ export class BlockExecutor {
 				};
 			}
 
-			// Load and execute the block's executor
-			const executor = await this.loadExecutor(blockDefinition.executorPath);
-			if (!executor) {
-				return {
-					success: false,
-					error: `Failed to load executor for block '${blockType}'`
-				};
+			// The node's model and generation parameters, also used by the executor's ctx.callModel
+			const { model, params } = this.resolveGeneration(blockDefinition, config);
+			const { provider, model: providerModel } = this.plugin.providerRegistry.resolve(model);
+			const usage = emptyUsage();
+			const callOptions: CallOptions = {
+				onToken,
+				onRetry: (retry) => {
+					streamed = '';
+					options.onRetry?.(retry);
+				},
+				// Nodes opt out of caching with useCache: false
+				useCache: config?.useCache !== false,
+				forceRefresh: options.forceRefresh,
+				signal: options.signal,
+				usageContext: options.recordUsage === false ? undefined : { canvasPath: options.canvasPath || '', nodeId: options.nodeId || '', blockType },
+				usage
+			};
+
+			// Load the block's executor into its sandbox
+			executor = await this.loadExecutor(blockDefinition, model, params, callOptions);
+
+			// Execute the block to get the prompt or structured request
+			const inputs = options.inputs || {};
+			const request = this.toChatRequest(await executor.execute(inputText, config, inputs));
+			const run = {
+				model: `${provider.config.id}:${providerModel}`,
+				params,
+				promptHash: await hashValue(request),
+				usage
+			};
+
+			// Input too large for the model's context is split for blocks that support it
+			const chunks = await this.planChunks(blockDefinition, executor, inputText, config, inputs, request, model, params);
+			if (chunks) {
+				return { ...await this.executeChunked(blockDefinition, executor, chunks, request, config, model, params, callOptions, options), ...run };
 			}
 
-			// Execute the block to get the prompt
-			const prompt = await executor.execute(inputText, config);
-			
-			// Make the AI API call
-			const aiResponse = await this.callAIAPI(prompt, this.plugin.settings.defaultModel);
+			if (blockDefinition.outputSchema) {
+				return { ...await this.executeStructured(blockDefinition.outputSchema, request, model, params, callOptions, executor, config), ...run };
+			}
+
+			const aiResponse = await this.callAIAPI(request, model, params, callOptions);
 			
 			return {
 				success: true,
-				output: aiResponse
+				output: aiResponse.text,
+				cached: aiResponse.cached,
+				...run
 			};
 
 		} catch (error) {
 			this.plugin.debug(`Error executing block ${blockType}:`, error);
 			return {
 				success: false,
-				error: error instanceof Error ? error.message : 'Unknown error occurred'
+				output: streamed || undefined,
+				error: error instanceof Error ? error.message : 'Unknown error occurred',
+				cancelled: isAbortError(error)
 			};
+		} finally {
+			executor?.dispose();
 		}
 	}
 
-	private async loadExecutor(executorPath: string): Promise<any> {
-		try {
-			// Read the executor file
-			const content = await this.plugin.app.vault.adapter.read(executorPath);
-			
-			// Create a temporary module environment
-			const module = { exports: {} };
-			const require = (id: string) => {
-				if (id === 'obsidian') {
-					return this.plugin.app;
+	// Request JSON matching the block's schema, validate it, and give the model one chance to repair
+	// an invalid response. Raw JSON isn't streamed; the rendered markdown is the node's text.
+	private async executeStructured(
+		schema: JsonSchema,
+		request: ChatRequest,
+		model: string,
+		params: GenerationParams,
+		callOptions: CallOptions,
+		executor: SandboxedExecutor,
+		config: unknown
+	): Promise<ExecutionResult> {
+		const instructions = `Respond only with JSON that matches this JSON Schema, with no other text:\n\n${JSON.stringify(schema, null, 2)}`;
+		const structuredRequest: ChatRequest = {
+			...request,
+			system: request.system ? `${request.system}\n\n${instructions}` : instructions,
+			responseSchema: schema
+		};
+		// Only valid answers are cached, so an invalid one isn't replayed (and repaired) on every run
+		const quietOptions: CallOptions = {
+			...callOptions,
+			onToken: undefined,
+			isCacheable: text => this.parseStructured(schema, text).errors.length === 0
+		};
+
+		const first = await this.callAIAPI(structuredRequest, model, params, quietOptions);
+		let cached = first.cached;
+		let parsed = this.parseStructured(schema, first.text);
+
+		if (parsed.errors.length > 0) {
+			this.plugin.debug('Structured output failed validation, requesting a repair:', parsed.errors);
+			const repairRequest: ChatRequest = {
+				...structuredRequest,
+				messages: [
+					...structuredRequest.messages,
+					{ role: 'assistant', content: first.text },
+					{
+						role: 'user',
+						content: `That response is not valid against the schema:\n${parsed.errors.map(error => `- ${error}`).join('\n')}\n\nReply with the corrected JSON only.`
+					}
+				]
+			};
+			const repaired = await this.callAIAPI(repairRequest, model, params, quietOptions);
+			cached = cached && repaired.cached;
+			parsed = this.parseStructured(schema, repaired.text);
+		}
+
+		if (parsed.errors.length > 0) {
+			return {
+				success: false,
+				error: `Output did not match the block's schema: ${parsed.errors.slice(0, 5).join('; ')}`
+			};
+		}
+
+		const output = typeof executor.render === 'function'
+			? await executor.render(parsed.data, config)
+			: renderJsonAsMarkdown(parsed.data);
+		return {
+			success: true,
+			output,
+			data: parsed.data,
+			cached
+		};
+	}
+
+	// Returns the chunks to run separately, or null when the input fits in one request
+	private async planChunks(
+		blockDefinition: BlockDefinition,
+		executor: SandboxedExecutor,
+		inputText: string,
+		config: unknown,
+		inputs: Record<string, string>,
+		request: ChatRequest,
+		model: string,
+		params: GenerationParams
+	): Promise<string[] | null> {
+		const mode = blockDefinition.chunking || 'none';
+		if (mode === 'none') return null;
+
+		const limit = this.getContextLimit(model);
+		const reserved = this.getReservedTokens(blockDefinition, params);
+		if (estimateRequestTokens(request) + reserved <= limit) return null;
+
+		// Whatever the executor adds around the input is repeated in every chunk's request
+		const overhead = estimateRequestTokens(this.toChatRequest(await executor.execute('', config, inputs)));
+		const chunkBudget = limit - reserved - overhead;
+		if (chunkBudget < MIN_CHUNK_TOKENS) {
+			throw new Error(`The input is too long for ${model} (${limit} token context) and there's no room left to split it. Lower Max Tokens or choose a model with a larger context.`);
+		}
+
+		const chunks = splitIntoChunks(inputText, chunkBudget);
+		this.plugin.debug(`Input of ~${estimateTokens(inputText)} tokens split into ${chunks.length} chunks of up to ${chunkBudget} tokens (${mode})`);
+		return chunks.length > 1 ? chunks : null;
+	}
+
+	// Run the block on each chunk in order, then join ('concatenate') or combine ('map-reduce') the results
+	private async executeChunked(
+		blockDefinition: BlockDefinition,
+		executor: SandboxedExecutor,
+		chunks: string[],
+		request: ChatRequest,
+		config: unknown,
+		model: string,
+		params: GenerationParams,
+		callOptions: CallOptions,
+		options: ExecuteOptions
+	): Promise<ExecutionResult> {
+		const schema = blockDefinition.outputSchema;
+		const concatenate = blockDefinition.chunking === 'concatenate';
+		// Partial results aren't streamed; progress is reported per chunk instead
+		const quietOptions: CallOptions = { ...callOptions, onToken: undefined };
+
+		const outputs: string[] = [];
+		const data: unknown[] = [];
+		let cached = true;
+		for (let index = 0; index < chunks.length; index++) {
+			options.onProgress?.(`Processing chunk ${index + 1} of ${chunks.length}`);
+			const chunkRequest = this.toChatRequest(await executor.execute(chunks[index], config, options.inputs || {}));
+
+			if (concatenate && schema) {
+				const result = await this.executeStructured(schema, chunkRequest, model, params, quietOptions, executor, config);
+				if (!result.success) {
+					return { ...result, error: `Chunk ${index + 1} of ${chunks.length}: ${result.error}` };
 				}
-				throw new Error(`Module '${id}' not found`);
+				outputs.push(result.output || '');
+				data.push(result.data);
+				cached = cached && !!result.cached;
+			} else {
+				// Map steps of structured blocks produce plain text; only the reduce step is validated
+				const response = await this.callAIAPI(chunkRequest, model, params, quietOptions);
+				outputs.push(response.text);
+				cached = cached && response.cached;
+			}
+		}
+
+		if (concatenate) {
+			return {
+				success: true,
+				output: outputs.join('\n\n'),
+				data: schema ? data : undefined,
+				cached
 			};
+		}
+
+		// Combine in rounds until everything fits in a single reduce request
+		const limit = this.getContextLimit(model) - this.getReservedTokens(blockDefinition, params);
+		let partials = outputs;
+		for (;;) {
+			const groups = await this.groupForReduce(partials, executor, request, config, limit);
+			if (groups.length === 1) break;
+
+			options.onProgress?.(`Combining ${partials.length} partial results`);
+			const combined: string[] = [];
+			for (const group of groups) {
+				if (group.length === 1) {
+					combined.push(group[0]);
+					continue;
+				}
+				const response = await this.callAIAPI(await this.buildReduceRequest(group, executor, request, config), model, params, quietOptions);
+				combined.push(response.text);
+				cached = cached && response.cached;
+			}
+			partials = combined;
+		}
 
-			// Execute the executor code
-			const executorFunction = new Function('module', 'exports', 'require', content);
-			executorFunction(module, module.exports, require);
+		options.onProgress?.(`Combining ${partials.length} partial results`);
+		const reduceRequest = await this.buildReduceRequest(partials, executor, request, config);
+		if (schema) {
+			const result = await this.executeStructured(schema, reduceRequest, model, params, quietOptions, executor, config);
+			return { ...result, cached: cached && !!result.cached };
+		}
+		const response = await this.callAIAPI(reduceRequest, model, params, quietOptions);
+		return {
+			success: true,
+			output: response.text,
+			cached: cached && response.cached
+		};
+	}
 
-			return module.exports;
+	// Group partial results so each group's reduce request fits the token limit.
+	// Every group takes at least two results so each round makes progress.
+	private async groupForReduce(
+		partials: string[],
+		executor: SandboxedExecutor,
+		request: ChatRequest,
+		config: unknown,
+		limit: number
+	): Promise<string[][]> {
+		const groups: string[][] = [];
+		let current: string[] = [];
+		for (const partial of partials) {
+			const candidate = [...current, partial];
+			const fits = estimateRequestTokens(await this.buildReduceRequest(candidate, executor, request, config)) <= limit;
+			if (current.length >= 2 && !fits) {
+				groups.push(current);
+				current = [partial];
+			} else {
+				current = candidate;
+			}
+		}
+		if (current.length > 0) {
+			groups.push(current);
+		}
+		return groups;
+	}
+
+	// The executor's own reduce step if it has one, otherwise a generic combine prompt
+	// that keeps the block's system prompt
+	private async buildReduceRequest(partials: string[], executor: SandboxedExecutor, request: ChatRequest, config: unknown): Promise<ChatRequest> {
+		if (typeof executor.reduce === 'function') {
+			return this.toChatRequest(await executor.reduce(partials, config));
+		}
+		const parts = partials.map((partial, index) => `--- Part ${index + 1} of ${partials.length} ---\n${partial}`).join('\n\n');
+		return {
+			system: request.system,
+			messages: [{
+				role: 'user',
+				content: `The following results were produced separately from consecutive parts of one longer input. Combine them into a single result in the same format, merging overlapping points and keeping the original order.\n\n${parts}`
+			}]
+		};
+	}
+
+	// Context window of a model, by full reference first, then bare model name
+	getContextLimit(model: string): number {
+		const { provider, model: providerModel } = this.plugin.providerRegistry.resolve(model);
+		const limits = this.plugin.settings.contextLimits;
+		return limits[`${provider.config.id}:${providerModel}`] ?? limits[providerModel] ?? this.plugin.settings.defaultContextLimit;
+	}
+
+	// Tokens that must stay free in every request: the response, schema instructions and a safety margin
+	private getReservedTokens(blockDefinition: BlockDefinition, params: GenerationParams): number {
+		const schemaTokens = blockDefinition.outputSchema ? estimateTokens(JSON.stringify(blockDefinition.outputSchema, null, 2)) + 50 : 0;
+		return (params.maxTokens ?? DEFAULT_GENERATION.maxTokens ?? 0) + schemaTokens + CONTEXT_MARGIN_TOKENS;
+	}
+
+	private parseStructured(schema: JsonSchema, text: string): { data?: unknown; errors: string[] } {
+		let data: unknown;
+		try {
+			data = parseJsonResponse(text);
 		} catch (error) {
-			this.plugin.debug(`Error loading executor from ${executorPath}:`, error);
-			return null;
+			return { errors: [`response is not valid JSON (${error instanceof Error ? error.message : 'parse error'})`] };
 		}
+		return { data, errors: validateJsonSchema(schema, data) };
+	}
+
+	// The request a block's executor builds for the given input, before any model is called
+	async buildRequest(blockDefinition: BlockDefinition, inputText: string, config: unknown, inputs: Record<string, string> = {}): Promise<ChatRequest> {
+		const { model, params } = this.resolveGeneration(blockDefinition, config as Record<string, unknown> | undefined);
+		const executor = await this.loadExecutor(blockDefinition, model, params, {});
+		try {
+			return this.toChatRequest(await executor.execute(inputText, config, inputs));
+		} finally {
+			executor.dispose();
+		}
+	}
+
+	// Start the block's executor in a sandbox. Its ctx calls are answered here, within the
+	// permissions the user approved, and its model calls count towards the run.
+	private async loadExecutor(blockDefinition: BlockDefinition, model: string, params: GenerationParams, callOptions: CallOptions): Promise<SandboxedExecutor> {
+		let code: string;
+		try {
+			code = await this.plugin.host.storage.read(blockDefinition.executorPath);
+		} catch (error) {
+			this.plugin.debug(`Error reading executor from ${blockDefinition.executorPath}:`, error);
+			throw new Error(`Failed to load executor for block '${blockDefinition.id}'`);
+		}
+
+		return SandboxedExecutor.load(source => this.plugin.host.createWorker(source), code, {
+			blockId: blockDefinition.id,
+			timeoutMs: this.plugin.settings.executorTimeoutSeconds * 1000,
+			declared: blockDefinition.permissions,
+			// Approvals only count for the code they were given for, in case executor.js changed since loading
+			granted: this.plugin.blockManager.getGrantedPermissions(blockDefinition, await hashExecutor(code, blockDefinition.permissions)),
+			capabilities: {
+				readNote: path => this.readNoteForExecutor(path),
+				callModel: async prompt => (await this.callAIAPI(this.toChatRequest(prompt), model, params, { ...callOptions, onToken: undefined })).text,
+				log: message => this.plugin.debug(`[${blockDefinition.id}] ${message}`)
+			}
+		});
+	}
+
+	// Notes only: no other file types, and nothing in hidden folders such as the vault's config
+	private async readNoteForExecutor(path: string): Promise<string> {
+		const notePath = normalizePath(path);
+		if (!notePath.endsWith('.md') || isPrivatePath(notePath, this.plugin.host.configDir)) {
+			throw new Error(`Only Markdown notes can be read, not '${path}'`);
+		}
+		if (!(await this.plugin.host.storage.exists(notePath))) {
+			throw new Error(`Note not found: ${path}`);
+		}
+		return this.plugin.host.storage.read(notePath);
 	}
 
 	// Execute a clarification request
-	async executeClarification(selectedText: string, question: string): Promise<ExecutionResult> {
+	async executeClarification(selectedText: string, question: string, canvasPath = ''): Promise<ExecutionResult> {
 		this.plugin.debug('Executing clarification request');
 
 		try {
@@ -96,11 +497,13 @@ Question: ${question}
 Please provide a helpful and accurate answer to their question.`;
 
 			// Call the AI API
-			const aiResponse = await this.callAIAPI(prompt, this.plugin.settings.defaultModel);
+			const aiResponse = await this.callAIAPI(this.toChatRequest(prompt), this.plugin.settings.defaultModel, DEFAULT_GENERATION, {
+				usageContext: { canvasPath, nodeId: '', blockType: 'clarification' }
+			});
 
 			return {
 				success: true,
-				output: aiResponse
+				output: aiResponse.text
 			};
 
 		} catch (error) {
@@ -112,96 +515,191 @@ Please provide a helpful and accurate answer to their question.`;
 		}
 	}
 
-	// Call AI API with real implementation
-	private async callAIAPI(prompt: string, model: string = 'gpt-3.5-turbo'): Promise<string> {
-		this.plugin.debug(`Calling AI API with model: ${model}`);
+	// Normalize an executor's return value: a plain string becomes a single user message,
+	// few-shot examples become user/assistant pairs ahead of the conversation
+	toChatRequest(result: unknown): ChatRequest {
+		if (typeof result === 'string') {
+			return { messages: [{ role: 'user', content: result }] };
+		}
+		if (!result || typeof result !== 'object') {
+			throw new Error('Executor must return a prompt string or a request object');
+		}
 
-		// Determine which API to use based on model
-		if (model.startsWith('gpt-') || model.startsWith('text-')) {
-			return await this.callOpenAI(prompt, model);
-		} else if (model.startsWith('claude-')) {
-			return await this.callAnthropic(prompt, model);
-		} else {
-			// Default to OpenAI
-			return await this.callOpenAI(prompt, model);
+		const structured = result as ExecutorRequest;
+		const systemParts: string[] = structured.system ? [structured.system] : [];
+		const messages: ChatMessage[] = [];
+
+		for (const example of structured.examples || []) {
+			messages.push({ role: 'user', content: example.input });
+			messages.push({ role: 'assistant', content: example.output });
+		}
+		for (const message of structured.messages || []) {
+			if (message.role === 'system') {
+				systemParts.push(message.content);
+			} else {
+				messages.push({ role: message.role, content: message.content });
+			}
+		}
+		if (structured.prompt) {
+			messages.push({ role: 'user', content: structured.prompt });
 		}
-	}
 
-	private async callOpenAI(prompt: string, model: string): Promise<string> {
-		const apiKey = this.plugin.settings.openaiApiKey;
-		if (!apiKey) {
-			throw new Error('OpenAI API key not configured. Please add it in the plugin settings.');
+		if (messages.length === 0) {
+			throw new Error('Executor request has no messages');
 		}
+		return {
+			system: systemParts.length > 0 ? systemParts.join('\n\n') : undefined,
+			messages
+		};
+	}
 
-		try {
-			const response = await fetch('https://api.openai.com/v1/chat/completions', {
-				method: 'POST',
-				headers: {
-					'Authorization': `Bearer ${apiKey}`,
-					'Content-Type': 'application/json',
-				},
-				body: JSON.stringify({
-					model: model,
-					messages: [
-						{
-							role: 'user',
-							content: prompt
-						}
-					],
-					max_tokens: 2000,
-					temperature: 0.7
-				})
-			});
+	// Merge node config over block defaults over plugin defaults
+	resolveGeneration(blockDefinition: BlockDefinition, config: Record<string, unknown> | undefined): { model: string; params: GenerationParams } {
+		const defaults = blockDefinition.generation || {};
+		const nodeModel = typeof config?.model === 'string' ? config.model.trim() : '';
 
-			if (!response.ok) {
-				const errorData = await response.json().catch(() => ({}));
-				throw new Error(`OpenAI API error: ${response.status} ${errorData.error?.message || response.statusText}`);
+		return {
+			model: nodeModel || defaults.model || this.plugin.settings.defaultModel,
+			params: {
+				temperature: toNumber(config?.temperature) ?? defaults.temperature ?? DEFAULT_GENERATION.temperature,
+				maxTokens: toNumber(config?.maxTokens) ?? defaults.maxTokens ?? DEFAULT_GENERATION.maxTokens,
+				topP: toNumber(config?.topP) ?? defaults.topP,
+				stop: toStringList(config?.stop) ?? defaults.stop
 			}
+		};
+	}
 
-			const data = await response.json();
-			return data.choices[0]?.message?.content || 'No response received';
-		} catch (error) {
-			this.plugin.debug('OpenAI API error:', error);
-			throw error;
+	// Call AI API through whichever configured provider serves the model, retrying transient failures
+	private async callAIAPI(request: ChatRequest, model: string, params: GenerationParams, options: CallOptions): Promise<CallResult> {
+		this.plugin.debug(`Calling AI API with model: ${model}`, params);
+
+		const { provider, model: providerModel } = this.plugin.providerRegistry.resolve(model);
+		this.plugin.debug(`Using provider: ${provider.config.name} (${provider.config.type})`);
+
+		// The cache key covers everything that determines the response. Mock answers are local
+		// already, and caching them would hide edits to fixtures.
+		const useCache = this.plugin.settings.cacheEnabled && options.useCache !== false && provider.config.type !== 'mock';
+		const cacheKey = useCache
+			? await hashValue({ provider: provider.config.id, model: providerModel, request, params })
+			: null;
+		if (cacheKey && !options.forceRefresh) {
+			const cached = await this.plugin.responseCache.get(cacheKey);
+			if (cached !== null) {
+				this.plugin.debug(`Response cache hit: ${cacheKey}`);
+				options.onToken?.(cached);
+				this.countUsage(options.usage, 0, 0, true);
+				if (options.usageContext) {
+					await this.plugin.usageLedger.record({
+						...options.usageContext,
+						model: `${provider.config.id}:${providerModel}`,
+						inputTokens: 0,
+						outputTokens: 0,
+						cached: true
+					});
+				}
+				return { text: cached, cached: true };
+			}
 		}
+
+		const maxAttempts = Math.max(0, this.plugin.settings.maxRetries) + 1;
+		for (let attempt = 1; ; attempt++) {
+			if (options.signal?.aborted) {
+				throw new RunCancelledError();
+			}
+			try {
+				const response = await provider.complete({ ...request, model: providerModel, params }, options.onToken, options.signal);
+				if (cacheKey && (!options.isCacheable || options.isCacheable(response.text))) {
+					await this.plugin.responseCache.set(cacheKey, response.text, `${provider.config.id}:${providerModel}`);
+				}
+				this.countUsage(options.usage, response.usage?.inputTokens || 0, response.usage?.outputTokens || 0, false);
+				if (options.usageContext) {
+					await this.plugin.usageLedger.record({
+						...options.usageContext,
+						model: `${provider.config.id}:${providerModel}`,
+						inputTokens: response.usage?.inputTokens || 0,
+						outputTokens: response.usage?.outputTokens || 0,
+						cached: false
+					});
+				}
+				return { text: response.text, cached: false };
+			} catch (error) {
+				if (isAbortError(error) || options.signal?.aborted) {
+					throw new RunCancelledError();
+				}
+				if (attempt >= maxAttempts || !this.isRetryable(error)) {
+					throw error;
+				}
+
+				const delayMs = this.getRetryDelay(attempt, error);
+				const message = error instanceof Error ? error.message : String(error);
+				this.plugin.debug(`Attempt ${attempt} failed, retrying in ${delayMs}ms: ${message}`);
+				options.onRetry?.({ attempt: attempt + 1, maxAttempts, delayMs, error: message });
+				await this.sleep(delayMs, options.signal);
+			}
+		}
+	}
+
+	private countUsage(usage: RunUsage | undefined, inputTokens: number, outputTokens: number, cached: boolean): void {
+		if (!usage) return;
+		usage.calls++;
+		if (cached) usage.cachedCalls++;
+		usage.inputTokens += inputTokens;
+		usage.outputTokens += outputTokens;
 	}
 
-	private async callAnthropic(prompt: string, model: string): Promise<string> {
-		const apiKey = this.plugin.settings.anthropicApiKey;
-		if (!apiKey) {
-			throw new Error('Anthropic API key not configured. Please add it in the plugin settings.');
+	private isRetryable(error: unknown): boolean {
+		if (error instanceof AIProviderError) {
+			return error.retryable;
 		}
+		// A dropped connection while reading the stream surfaces as a TypeError
+		return error instanceof TypeError;
+	}
 
-		try {
-			const response = await fetch('https://api.anthropic.com/v1/messages', {
-				method: 'POST',
-				headers: {
-					'x-api-key': apiKey,
-					'Content-Type': 'application/json',
-					'anthropic-version': '2023-06-01'
-				},
-				body: JSON.stringify({
-					model: model,
-					max_tokens: 2000,
-					messages: [
-						{
-							role: 'user',
-							content: prompt
-						}
-					]
-				})
-			});
+	// Exponential backoff with jitter, unless the server said how long to wait. Either way the
+	// wait is capped at the maximum delay.
+	private getRetryDelay(attempt: number, error: unknown): number {
+		const { retryBaseDelayMs, retryMaxDelayMs } = this.plugin.settings;
+		if (error instanceof AIProviderError && error.retryAfterMs !== undefined) {
+			return Math.min(error.retryAfterMs, retryMaxDelayMs);
+		}
+		const ceiling = Math.min(retryMaxDelayMs, retryBaseDelayMs * Math.pow(2, attempt - 1));
+		return Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+	}
 
-			if (!response.ok) {
-				const errorData = await response.json().catch(() => ({}));
-				throw new Error(`Anthropic API error: ${response.status} ${errorData.error?.message || response.statusText}`);
+	// Resolves after the delay, or rejects early if the run is cancelled
+	private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+		return new Promise((resolve, reject) => {
+			const onAbort = () => {
+				clearTimeout(timer);
+				reject(new RunCancelledError());
+			};
+			const timer = setTimeout(() => {
+				signal?.removeEventListener('abort', onAbort);
+				resolve();
+			}, ms);
+			if (signal?.aborted) {
+				onAbort();
+			} else {
+				signal?.addEventListener('abort', onAbort, { once: true });
 			}
+		});
+	}
+}
 
-			const data = await response.json();
-			return data.content[0]?.text || 'No response received';
-		} catch (error) {
-			this.plugin.debug('Anthropic API error:', error);
-			throw error;
-		}
+// Config values may be stored as strings by older versions of the config view
+function toNumber(value: unknown): number | undefined {
+	if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+	if (typeof value === 'string' && value.trim() !== '') {
+		const parsed = Number(value);
+		return Number.isFinite(parsed) ? parsed : undefined;
 	}
+	return undefined;
+}
+
+function toStringList(value: unknown): string[] | undefined {
+	const list = Array.isArray(value)
+		? value.filter((item): item is string => typeof item === 'string')
+		: typeof value === 'string' ? value.split('\n') : [];
+	const cleaned = list.filter(item => item.length > 0);
+	return cleaned.length > 0 ? cleaned : undefined;
 }
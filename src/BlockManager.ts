@@ -1,5 +1,9 @@
 // no direct imports from obsidian needed here
 import { LivingCanvasPlugin } from '../main';
+import { GenerationParams } from './providers/AIProvider';
+import { JsonSchema } from './JsonSchema';
+import { ChunkingMode } from './Chunker';
+import { BLOCK_PERMISSIONS, BlockPermission, hashExecutor } from './ExecutorSandbox';
 
 export interface BlockSetting {
 	name: string;
@@ -10,6 +14,18 @@ export interface BlockSetting {
 	options?: { [key: string]: string }; // For dropdown type
 }
 
+// A named input, fed by edges labelled with its name
+export interface BlockInput {
+	name: string;
+	description?: string;
+	required?: boolean;
+}
+
+// Model and generation parameters, as block defaults or per-node overrides
+export interface GenerationConfig extends GenerationParams {
+	model?: string;
+}
+
 export interface BlockDefinition {
 	id: string;
 	name: string;
@@ -18,18 +34,81 @@ export interface BlockDefinition {
 	version: string;
 	category: 'core' | 'community';
 	settings: BlockSetting[];
+	inputs?: BlockInput[];
+	generation?: GenerationConfig;
+	// When set, the block produces JSON validated against this schema
+	outputSchema?: JsonSchema;
+	// What to do with input larger than the model's context window
+	chunking?: ChunkingMode;
 	executorPath: string;
+	// tests.json in the block's folder, if it has one (see BlockTester)
+	testsPath?: string;
+	// What the executor may do through its ctx, once the user approves it
+	permissions: BlockPermission[];
+	// Hash of executor.js and the permissions, which approvals are tied to
+	executorHash: string;
 }
 
+// Generation fields every block accepts in its node config, alongside its own settings
+export const GENERATION_SETTINGS: BlockSetting[] = [
+	{
+		name: 'model',
+		description: 'Model',
+		type: 'dropdown'
+	},
+	{
+		name: 'temperature',
+		description: 'Temperature (0.0 - 2.0)',
+		type: 'number'
+	},
+	{
+		name: 'maxTokens',
+		description: 'Maximum output tokens',
+		type: 'number'
+	},
+	{
+		name: 'topP',
+		description: 'Top P (0.0 - 1.0)',
+		type: 'number'
+	},
+	{
+		name: 'stop',
+		description: 'Stop sequences (one per line)',
+		type: 'textarea'
+	}
+];
+
+// Execution options every block accepts in its node config
+export const RUN_SETTINGS: BlockSetting[] = [
+	{
+		name: 'useCache',
+		description: 'Reuse cached responses for identical requests',
+		type: 'boolean',
+		default: true
+	},
+	{
+		name: 'batchGroups',
+		description: 'Run once for each node in a connected group, instead of once for the whole group',
+		type: 'boolean',
+		default: false
+	},
+	{
+		name: 'batchAggregate',
+		description: 'In batch runs, also collect every result in one node',
+		type: 'boolean',
+		default: false
+	}
+];
+
 export class BlockManager {
 	private plugin: LivingCanvasPlugin;
 	private blocks: Map<string, BlockDefinition> = new Map();
 	private blocksDirectory: string;
 
-	constructor(plugin: LivingCanvasPlugin) {
+	// The blocks folder is relative to the vault root unless the headless runner gives another one
+	constructor(plugin: LivingCanvasPlugin, blocksDirectory = 'blocks') {
 		this.plugin = plugin;
-		// Use a relative path within the plugin directory
-		this.blocksDirectory = 'blocks';
+		this.blocksDirectory = blocksDirectory;
 	}
 
 	async initialize(): Promise<void> {
@@ -47,12 +126,11 @@ export class BlockManager {
 		try {
 			// Check if blocks directory exists
 			const blocksPath = this.blocksDirectory;
-			const exists = await this.plugin.app.vault.adapter.exists(blocksPath);
+			const exists = await this.plugin.host.storage.exists(blocksPath);
 			
 			if (!exists) {
 				this.plugin.debug('Blocks directory does not exist, creating with sample blocks');
 				await this.createSampleBlocks();
-				return;
 			}
 
 			// Scan for block directories recursively
@@ -65,12 +143,12 @@ export class BlockManager {
 	private async scanDirectoryRecursively(directoryPath: string): Promise<void> {
 		try {
 			this.plugin.debug(`Scanning directory: ${directoryPath}`);
-			const entries = await this.plugin.app.vault.adapter.list(directoryPath);
+			const entries = await this.plugin.host.storage.list(directoryPath);
 			this.plugin.debug(`Found ${entries.folders.length} folders in ${directoryPath}`);
 			
 			// First, check if current directory is a block (has block.json)
 			const blockJsonPath = directoryPath + '/block.json';
-			const blockJsonExists = await this.plugin.app.vault.adapter.exists(blockJsonPath);
+			const blockJsonExists = await this.plugin.host.storage.exists(blockJsonPath);
 			
 			if (blockJsonExists) {
 				this.plugin.debug(`Found block at: ${directoryPath}`);
@@ -92,10 +170,11 @@ export class BlockManager {
 			this.plugin.debug(`Attempting to load block from: ${blockPath}`);
 			const blockJsonPath = blockPath + '/block.json';
 			const executorPath = blockPath + '/executor.js';
+			const testsPath = blockPath + '/tests.json';
 
 			// Check if both required files exist
-			const blockJsonExists = await this.plugin.app.vault.adapter.exists(blockJsonPath);
-			const executorExists = await this.plugin.app.vault.adapter.exists(executorPath);
+			const blockJsonExists = await this.plugin.host.storage.exists(blockJsonPath);
+			const executorExists = await this.plugin.host.storage.exists(executorPath);
 
 			this.plugin.debug(`Block files check - JSON exists: ${blockJsonExists}, Executor exists: ${executorExists}`);
 
@@ -105,7 +184,7 @@ export class BlockManager {
 			}
 
 			// Read block.json
-			const blockJsonContent = await this.plugin.app.vault.adapter.read(blockJsonPath);
+			const blockJsonContent = await this.plugin.host.storage.read(blockJsonPath);
 			const blockConfig = JSON.parse(blockJsonContent);
 			this.plugin.debug(`Parsed block config:`, blockConfig);
 
@@ -116,6 +195,8 @@ export class BlockManager {
 			}
 
 			// Create block definition
+			const permissions = this.parsePermissions(blockConfig.id, blockConfig.permissions);
+			const executorCode = await this.plugin.host.storage.read(executorPath);
 			const blockDefinition: BlockDefinition = {
 				id: blockConfig.id,
 				name: blockConfig.name,
@@ -124,7 +205,14 @@ export class BlockManager {
 				version: blockConfig.version,
 				category: blockConfig.category || 'community',
 				settings: blockConfig.settings || [],
-				executorPath: executorPath
+				inputs: blockConfig.inputs,
+				generation: blockConfig.generation,
+				outputSchema: blockConfig.outputSchema,
+				chunking: blockConfig.chunking,
+				permissions,
+				executorHash: await hashExecutor(executorCode, permissions),
+				executorPath: executorPath,
+				testsPath: await this.plugin.host.storage.exists(testsPath) ? testsPath : undefined
 			};
 
 			this.blocks.set(blockDefinition.id, blockDefinition);
@@ -134,6 +222,18 @@ export class BlockManager {
 		}
 	}
 
+	// Known permission names from block.json; anything else is ignored, as it could never be granted
+	private parsePermissions(blockId: string, permissions: unknown): BlockPermission[] {
+		if (!Array.isArray(permissions)) return [];
+		return permissions.filter((permission): permission is BlockPermission => {
+			const known = typeof permission === 'string' && permission in BLOCK_PERMISSIONS;
+			if (!known) {
+				this.plugin.debug(`Ignoring unknown permission ${JSON.stringify(permission)} of block ${blockId}`);
+			}
+			return known;
+		});
+	}
+
 private validateBlockConfig(config: Record<string, unknown>): boolean {
 		const requiredFields = ['id', 'name', 'description', 'author', 'version'];
 		return requiredFields.every(field => (config as Record<string, unknown>)[field] !== undefined);
@@ -141,7 +241,7 @@ private validateBlockConfig(config: Record<string, unknown>): boolean {
 
 	private async createSampleBlocks(): Promise<void> {
 		// Create blocks directory
-		await this.plugin.app.vault.adapter.mkdir(this.blocksDirectory);
+		await this.plugin.host.storage.mkdir(this.blocksDirectory);
 
 		// Create sample blocks
 		await this.createSummarizerBlock();
@@ -153,7 +253,7 @@ private validateBlockConfig(config: Record<string, unknown>): boolean {
 
 	private async createSummarizerBlock(): Promise<void> {
 		const blockDir = this.blocksDirectory + '/core/summarizer';
-		await this.plugin.app.vault.adapter.mkdir(blockDir);
+		await this.plugin.host.storage.mkdir(blockDir);
 
 		// Create block.json
 		const blockConfig = {
@@ -163,6 +263,7 @@ private validateBlockConfig(config: Record<string, unknown>): boolean {
 			author: 'Living Canvas Team',
 			version: '1.0.0',
 			category: 'core',
+			chunking: 'map-reduce',
 			settings: [
 				{
 					name: 'systemPrompt',
@@ -213,36 +314,69 @@ private validateBlockConfig(config: Record<string, unknown>): boolean {
 			]
 		};
 
-		await this.plugin.app.vault.adapter.write(blockDir + '/block.json', JSON.stringify(blockConfig, null, 2));
+		await this.plugin.host.storage.write(blockDir + '/block.json', JSON.stringify(blockConfig, null, 2));
 
 		// Create executor.js
 		const executorCode = `
 async function execute(inputText, config) {
 	const { systemPrompt, tone, outputFormat, maxLength, citeReferences } = config;
 	
-	// Construct the prompt
-	let prompt = \`\${systemPrompt}\\n\\nTone: \${tone}\\nFormat: \${outputFormat}\`;
+	// Construct the instructions
+	let instructions = \`Tone: \${tone}\\nFormat: \${outputFormat}\`;
 	if (maxLength) {
-		prompt += \`\\nMaximum length: \${maxLength} words\`;
+		instructions += \`\\nMaximum length: \${maxLength} words\`;
 	}
 	if (citeReferences) {
-		prompt += \`\\nInclude references and citations where appropriate\`;
+		instructions += \`\\nInclude references and citations where appropriate\`;
 	}
-	prompt += \`\\n\\nText to summarize:\\n\\n\${inputText}\`;
 
-	// Return the prompt - the BlockExecutor will handle the AI API call
-	return prompt;
+	// Return a structured request - the system prompt is sent as the model's system message
+	return {
+		system: systemPrompt,
+		messages: [
+			{
+				role: 'user',
+				content: \`\${instructions}\\n\\nText to summarize:\\n\\n\${inputText}\`
+			}
+		]
+	};
 }
 
 module.exports = { execute };
 `;
 
-		await this.plugin.app.vault.adapter.write(blockDir + '/executor.js', executorCode);
+		await this.plugin.host.storage.write(blockDir + '/executor.js', executorCode);
+
+		// Create tests.json, run with the "Test Block" command
+		const tests = [
+			{
+				name: 'Passes the tone and format to the model',
+				input: 'Cells are the basic unit of life.',
+				config: { tone: 'academic', outputFormat: 'numbered' },
+				expect: {
+					promptContains: ['Tone: academic', 'Format: numbered', 'Cells are the basic unit of life.'],
+					promptExcludes: ['references and citations']
+				}
+			},
+			{
+				name: 'Asks for citations when enabled',
+				input: 'Cells are the basic unit of life.',
+				config: { citeReferences: true },
+				expect: { promptContains: ['Include references and citations'] }
+			},
+			{
+				name: 'Returns the model\'s summary',
+				input: 'Cells are the basic unit of life. All living things are made of cells.',
+				response: '- Cells are the basic unit of life\n- All living things are made of them',
+				expect: { output: '- Cells are the basic unit of life\n- All living things are made of them' }
+			}
+		];
+		await this.plugin.host.storage.write(blockDir + '/tests.json', JSON.stringify(tests, null, 2));
 	}
 
 	private async createQuizzerBlock(): Promise<void> {
 		const blockDir = this.blocksDirectory + '/core/quizzer';
-		await this.plugin.app.vault.adapter.mkdir(blockDir);
+		await this.plugin.host.storage.mkdir(blockDir);
 
 		// Create block.json
 		const blockConfig = {
@@ -285,32 +419,78 @@ module.exports = { execute };
 						'hard': 'Hard'
 					}
 				}
-			]
+			],
+			outputSchema: {
+				type: 'object',
+				properties: {
+					questions: {
+						type: 'array',
+						minItems: 1,
+						items: {
+							type: 'object',
+							properties: {
+								question: {
+									type: 'string'
+								},
+								options: {
+									type: 'array',
+									items: {
+										type: 'string'
+									}
+								},
+								answer: {
+									type: 'string'
+								},
+								explanation: {
+									type: 'string'
+								}
+							},
+							required: ['question', 'answer']
+						}
+					}
+				},
+				required: ['questions']
+			}
 		};
 
-		await this.plugin.app.vault.adapter.write(blockDir + '/block.json', JSON.stringify(blockConfig, null, 2));
+		await this.plugin.host.storage.write(blockDir + '/block.json', JSON.stringify(blockConfig, null, 2));
 
 		// Create executor.js
 		const executorCode = `
 async function execute(inputText, config) {
 	const { questionType, numQuestions, difficulty } = config;
 	
-	// Construct the prompt
-	const prompt = \`Generate \${numQuestions} \${difficulty} \${questionType} questions based on the following content:\\n\\n\${inputText}\\n\\nFormat the questions clearly with answers.\`;
+	// Construct the prompt - the block's outputSchema makes the model answer in JSON
+	const prompt = \`Generate \${numQuestions} \${difficulty} \${questionType} questions based on the following content:\\n\\n\${inputText}\\n\\nInclude the correct answer and a short explanation for each question.\`;
 
 	// Return the prompt - the BlockExecutor will handle the AI API call
 	return prompt;
 }
 
-module.exports = { execute };
+// Turn the validated JSON into the text shown on the canvas
+function render(data) {
+	return data.questions.map((question, index) => {
+		let text = \`**\${index + 1}. \${question.question}**\`;
+		if (question.options && question.options.length > 0) {
+			text += '\\n' + question.options.map(option => \`- \${option}\`).join('\\n');
+		}
+		text += \`\\n\\n*Answer:* \${question.answer}\`;
+		if (question.explanation) {
+			text += \`\\n*Why:* \${question.explanation}\`;
+		}
+		return text;
+	}).join('\\n\\n');
+}
+
+module.exports = { execute, render };
 `;
 
-		await this.plugin.app.vault.adapter.write(blockDir + '/executor.js', executorCode);
+		await this.plugin.host.storage.write(blockDir + '/executor.js', executorCode);
 	}
 
 	private async createAIGraderBlock(): Promise<void> {
 		const blockDir = this.blocksDirectory + '/core/ai-grader';
-		await this.plugin.app.vault.adapter.mkdir(blockDir);
+		await this.plugin.host.storage.mkdir(blockDir);
 
 		const blockConfig = {
 			id: 'core/ai-grader',
@@ -346,33 +526,96 @@ module.exports = { execute };
 					required: false,
 					default: true
 				}
-			]
+			],
+			inputs: [
+				{
+					name: 'essay',
+					description: 'The work to grade',
+					required: true
+				},
+				{
+					name: 'rubric',
+					description: 'Grading rubric; replaces the criteria setting when connected'
+				}
+			],
+			outputSchema: {
+				type: 'object',
+				properties: {
+					grade: {
+						type: 'string',
+						description: 'Overall grade on the requested scale'
+					},
+					summary: {
+						type: 'string'
+					},
+					criteria: {
+						type: 'array',
+						items: {
+							type: 'object',
+							properties: {
+								name: {
+									type: 'string'
+								},
+								score: {
+									type: 'string'
+								},
+								feedback: {
+									type: 'string'
+								}
+							},
+							required: ['name', 'score', 'feedback']
+						}
+					},
+					suggestions: {
+						type: 'array',
+						items: {
+							type: 'string'
+						}
+					}
+				},
+				required: ['grade', 'summary', 'criteria']
+			}
 		};
 
-		await this.plugin.app.vault.adapter.write(blockDir + '/block.json', JSON.stringify(blockConfig, null, 2));
+		await this.plugin.host.storage.write(blockDir + '/block.json', JSON.stringify(blockConfig, null, 2));
 
 		const executorCode = `
-async function execute(inputText, config) {
+async function execute(inputText, config, inputs = {}) {
 	const { gradingCriteria, gradeScale, includeSuggestions } = config;
+
+	// A rubric connected through an edge labelled "rubric" replaces the criteria setting
+	const criteria = inputs.rubric || gradingCriteria;
 	
-	let prompt = \`Please grade the following work based on these criteria: \${gradingCriteria}\\n\\nGrading scale: \${gradeScale}\`;
+	let prompt = \`Please grade the following work based on these criteria:\\n\\n\${criteria}\\n\\nGrading scale: \${gradeScale}\`;
 	if (includeSuggestions) {
 		prompt += \`\\nInclude specific suggestions for improvement.\`;
 	}
-	prompt += \`\\n\\nWork to grade:\\n\\n\${inputText}\`;
+	prompt += \`\\n\\nWork to grade:\\n\\n\${inputs.essay || inputText}\`;
 
 	return prompt;
 }
 
-module.exports = { execute };
+// Turn the validated JSON into the text shown on the canvas
+function render(data) {
+	let text = \`## Grade: \${data.grade}\\n\\n\${data.summary}\`;
+	if (data.criteria && data.criteria.length > 0) {
+		text += '\\n\\n' + data.criteria.map(item => \`- **\${item.name}** (\${item.score}): \${item.feedback}\`).join('\\n');
+	}
+	if (data.suggestions && data.suggestions.length > 0) {
+		text += '\\n\\n### Suggestions\\n' + data.suggestions.map(suggestion => \`- \${suggestion}\`).join('\\n');
+	}
+	return text;
+}
+
+module.exports = { execute, render };
 `;
 
-		await this.plugin.app.vault.adapter.write(blockDir + '/executor.js', executorCode);
+		await this.plugin.host.storage.write(blockDir + '/executor.js', executorCode);
 	}
 
 	private async createTranslatorBlock(): Promise<void> {
 		const blockDir = this.blocksDirectory + '/core/translator';
-		await this.plugin.app.vault.adapter.mkdir(blockDir);
+		await this.plugin.host.storage.mkdir(blockDir);
 
 		const blockConfig = {
 			id: 'core/translator',
@@ -381,6 +624,7 @@ module.exports = { execute };
 			author: 'Living Canvas Team',
 			version: '1.0.0',
 			category: 'core',
+			chunking: 'concatenate',
 			settings: [
 				{
 					name: 'targetLanguage',
@@ -411,7 +655,7 @@ module.exports = { execute };
 			]
 		};
 
-		await this.plugin.app.vault.adapter.write(blockDir + '/block.json', JSON.stringify(blockConfig, null, 2));
+		await this.plugin.host.storage.write(blockDir + '/block.json', JSON.stringify(blockConfig, null, 2));
 
 		const executorCode = `
 async function execute(inputText, config) {
@@ -429,12 +673,12 @@ async function execute(inputText, config) {
 module.exports = { execute };
 `;
 
-		await this.plugin.app.vault.adapter.write(blockDir + '/executor.js', executorCode);
+		await this.plugin.host.storage.write(blockDir + '/executor.js', executorCode);
 	}
 
 	private async createCustomPromptBlock(): Promise<void> {
 		const blockDir = this.blocksDirectory + '/core/custom-prompt';
-		await this.plugin.app.vault.adapter.mkdir(blockDir);
+		await this.plugin.host.storage.mkdir(blockDir);
 
 		const blockConfig = {
 			id: 'core/custom-prompt',
@@ -450,32 +694,25 @@ module.exports = { execute };
 					type: 'textarea',
 					required: true,
 					default: 'You are a helpful assistant. Using the following input, respond helpfully.\n\nInput:\n{{input}}'
-				},
-				{
-					name: 'temperature',
-					description: 'Creativity (0.0 - 1.0)',
-					type: 'number',
-					required: false,
-					default: 0.7
 				}
-			]
+			],
+			generation: {
+				temperature: 0.7
+			}
 		};
 
-		await this.plugin.app.vault.adapter.write(blockDir + '/block.json', JSON.stringify(blockConfig, null, 2));
+		await this.plugin.host.storage.write(blockDir + '/block.json', JSON.stringify(blockConfig, null, 2));
 
     const executorCode = `
 async function execute(inputText, config) {
-  const { prompt, temperature } = config;
-  const filled = (prompt || '').split('{{ input }}').join(inputText || '');
-  // Optionally include temperature hint inline; the model handler may ignore it
-  const header = typeof temperature === 'number' ? \`Temperature: \${temperature}\n\n\` : '';
-  return header + filled;
+  const { prompt } = config;
+  return (prompt || '').split('{{ input }}').join(inputText || '');
 }
 
 module.exports = { execute };
 `;
 
-		await this.plugin.app.vault.adapter.write(blockDir + '/executor.js', executorCode);
+		await this.plugin.host.storage.write(blockDir + '/executor.js', executorCode);
 	}
 
 	// Create a user-defined custom block under blocks/community/<slug>/
@@ -486,18 +723,18 @@ module.exports = { execute };
 			const blockDir = `${baseDir}/${slug}`;
 
 			// Ensure directories exist
-			if (!(await this.plugin.app.vault.adapter.exists(this.blocksDirectory))) {
-				await this.plugin.app.vault.adapter.mkdir(this.blocksDirectory);
+			if (!(await this.plugin.host.storage.exists(this.blocksDirectory))) {
+				await this.plugin.host.storage.mkdir(this.blocksDirectory);
 			}
-			if (!(await this.plugin.app.vault.adapter.exists(baseDir))) {
-				await this.plugin.app.vault.adapter.mkdir(baseDir);
+			if (!(await this.plugin.host.storage.exists(baseDir))) {
+				await this.plugin.host.storage.mkdir(baseDir);
 			}
-			if (await this.plugin.app.vault.adapter.exists(blockDir)) {
+			if (await this.plugin.host.storage.exists(blockDir)) {
 				// Append timestamp to avoid collision
 				const ts = Date.now();
 				return await this.createUserBlock({ ...params, name: `${params.name}-${ts}` });
 			}
-			await this.plugin.app.vault.adapter.mkdir(blockDir);
+			await this.plugin.host.storage.mkdir(blockDir);
 
 			const id = `community/${slug}`;
 				const blockJson: Record<string, unknown> = {
@@ -516,30 +753,24 @@ module.exports = { execute };
 						type: 'textarea',
 						required: true,
 						default: params.prompt
-					},
-					{
-						name: 'temperature',
-						description: 'Creativity (0.0 - 1.0)',
-						type: 'number',
-						required: false,
-						default: typeof params.temperature === 'number' ? params.temperature : 0.7
 					}
-				]
+				],
+				generation: {
+					temperature: typeof params.temperature === 'number' ? params.temperature : 0.7
+				}
 			};
 
 			const executorCode = `
 async function execute(inputText, config) {
-  const { prompt, temperature } = config;
-  const filled = (prompt || '').split('{{ input }}').join(inputText || '');
-  const header = typeof temperature === 'number' ? \`Temperature: \${temperature}\n\n\` : '';
-  return header + filled;
+  const { prompt } = config;
+  return (prompt || '').split('{{ input }}').join(inputText || '');
 }
 
 module.exports = { execute };
 `;
 
-			await this.plugin.app.vault.adapter.write(`${blockDir}/block.json`, JSON.stringify(blockJson, null, 2));
-			await this.plugin.app.vault.adapter.write(`${blockDir}/executor.js`, executorCode);
+			await this.plugin.host.storage.write(`${blockDir}/block.json`, JSON.stringify(blockJson, null, 2));
+			await this.plugin.host.storage.write(`${blockDir}/executor.js`, executorCode);
 
 			return { id, path: blockDir };
 		} catch (error) {
@@ -566,6 +797,54 @@ module.exports = { execute };
 		return Array.from(this.blocks.values());
 	}
 
+	// Permissions the block declares that the user has approved. They only hold for the executor
+	// they were approved for, so pass the hash of the code about to run.
+	getGrantedPermissions(blockDefinition: BlockDefinition, executorHash = blockDefinition.executorHash): BlockPermission[] {
+		const review = this.getReview(blockDefinition.id, executorHash);
+		return blockDefinition.permissions.filter(permission => review?.granted.includes(permission));
+	}
+
+	// Permissions the block declares that the user hasn't approved or declined yet, which is all
+	// of them if the executor has changed since
+	getUnreviewedPermissions(blockDefinition: BlockDefinition): BlockPermission[] {
+		const review = this.getReview(blockDefinition.id, blockDefinition.executorHash);
+		return blockDefinition.permissions.filter(permission => !review?.granted.includes(permission) && !review?.denied.includes(permission));
+	}
+
+	// Whether the user has reviewed an earlier version of the block's executor
+	hasChangedSinceReview(blockDefinition: BlockDefinition): boolean {
+		const review = this.plugin.settings.blockPermissions[blockDefinition.id];
+		return review !== undefined && review.hash !== blockDefinition.executorHash;
+	}
+
+	async setPermission(blockId: string, permission: BlockPermission, granted: boolean): Promise<void> {
+		const blockDefinition = this.blocks.get(blockId);
+		if (!blockDefinition) return;
+		// Decisions about an earlier executor are dropped
+		const review = this.getReview(blockId, blockDefinition.executorHash) || { granted: [], denied: [], hash: blockDefinition.executorHash };
+		review.granted = review.granted.filter(p => p !== permission);
+		review.denied = review.denied.filter(p => p !== permission);
+		(granted ? review.granted : review.denied).push(permission);
+		this.plugin.settings.blockPermissions[blockId] = review;
+		await this.plugin.saveSettings();
+	}
+
+	private getReview(blockId: string, executorHash: string): { granted: BlockPermission[]; denied: BlockPermission[]; hash: string } | undefined {
+		const review = this.plugin.settings.blockPermissions[blockId];
+		return review?.hash === executorHash ? review : undefined;
+	}
+
+	// The config a newly inserted block starts with
+	getDefaultConfig(blockDefinition: BlockDefinition): Record<string, unknown> {
+		const config: Record<string, unknown> = {};
+		for (const setting of blockDefinition.settings) {
+			if (setting.default !== undefined) {
+				config[setting.name] = setting.default;
+			}
+		}
+		return config;
+	}
+
 	getBlocksByCategory(category: 'core' | 'community'): BlockDefinition[] {
 		return this.getAllBlocks().filter(block => block.category === category);
 	}
@@ -0,0 +1,187 @@
+import { LivingCanvasPlugin } from '../main';
+import { BlockDefinition } from './BlockManager';
+import { MockProvider, promptText } from './providers/MockProvider';
+
+// One case in a block's tests.json. The block runs on the input with the config (over the block's
+// defaults) against a mock model, and the prompt and output are checked against expect.
+export interface BlockTestCase {
+	name: string;
+	input?: string;
+	config?: Record<string, unknown>;
+	// Text of named inputs, keyed by edge label
+	inputs?: Record<string, string>;
+	// What the model answers: this text, or else the mock's echo (the default) or fixture mode,
+	// with fixtures in the block's fixtures folder
+	response?: string;
+	mock?: 'echo' | 'fixture';
+	expect?: {
+		promptContains?: string[];
+		promptExcludes?: string[];
+		output?: string;
+		outputContains?: string[];
+		// The run should fail with an error containing this
+		error?: string;
+	};
+}
+
+export interface TestFailure {
+	message: string;
+	// For mismatched text, shown as a diff
+	expected?: string;
+	actual?: string;
+}
+
+export interface BlockTestResult {
+	name: string;
+	passed: boolean;
+	failures: TestFailure[];
+	prompt?: string;
+	output?: string;
+	durationMs: number;
+}
+
+export interface BlockTestReport {
+	blockId: string;
+	blockName: string;
+	results: BlockTestResult[];
+	// tests.json couldn't be read
+	error?: string;
+}
+
+export class BlockTester {
+	private plugin: LivingCanvasPlugin;
+	private runCount = 0;
+
+	constructor(plugin: LivingCanvasPlugin) {
+		this.plugin = plugin;
+	}
+
+	// Blocks whose folder has a tests.json
+	getTestableBlocks(): BlockDefinition[] {
+		return this.plugin.blockManager.getAllBlocks().filter(block => block.testsPath);
+	}
+
+	async testAll(): Promise<BlockTestReport[]> {
+		const reports: BlockTestReport[] = [];
+		for (const block of this.getTestableBlocks()) {
+			reports.push(await this.testBlock(block));
+		}
+		return reports;
+	}
+
+	async testBlock(blockDefinition: BlockDefinition): Promise<BlockTestReport> {
+		const report: BlockTestReport = { blockId: blockDefinition.id, blockName: blockDefinition.name, results: [] };
+		let cases: BlockTestCase[];
+		try {
+			cases = await this.loadCases(blockDefinition);
+		} catch (error) {
+			report.error = error instanceof Error ? error.message : String(error);
+			return report;
+		}
+
+		for (const [index, testCase] of cases.entries()) {
+			report.results.push(await this.runCase(blockDefinition, testCase, index));
+		}
+		this.plugin.debug(`Tested ${blockDefinition.id}: ${report.results.filter(result => result.passed).length} of ${report.results.length} passed`);
+		return report;
+	}
+
+	private async loadCases(blockDefinition: BlockDefinition): Promise<BlockTestCase[]> {
+		if (!blockDefinition.testsPath) {
+			throw new Error('The block has no tests.json');
+		}
+		let cases: unknown;
+		try {
+			cases = JSON.parse(await this.plugin.host.storage.read(blockDefinition.testsPath));
+		} catch (error) {
+			throw new Error(`${blockDefinition.testsPath} is not valid JSON: ${error instanceof Error ? error.message : error}`);
+		}
+		if (!Array.isArray(cases)) {
+			throw new Error(`${blockDefinition.testsPath} should hold an array of test cases`);
+		}
+		return cases as BlockTestCase[];
+	}
+
+	private async runCase(blockDefinition: BlockDefinition, testCase: BlockTestCase, index: number): Promise<BlockTestResult> {
+		const started = Date.now();
+		const result: BlockTestResult = { name: testCase.name || `Test ${index + 1}`, passed: false, failures: [], durationMs: 0 };
+		const expect = testCase.expect || {};
+		const input = testCase.input ?? '';
+
+		// Every model call, including the executor's own, is answered by a mock only this case can reach
+		const mock = new MockProvider({
+			id: `block-test-${++this.runCount}`,
+			name: 'Block test',
+			type: 'mock',
+			baseUrl: '',
+			apiKey: '',
+			authScheme: 'none',
+			models: [],
+			fixtureFolder: blockDefinition.executorPath.replace(/[^/]*$/, 'fixtures')
+		}, this.plugin, testCase.response);
+		const config = {
+			...this.plugin.blockManager.getDefaultConfig(blockDefinition),
+			...testCase.config,
+			model: `${mock.config.id}:${testCase.mock || 'echo'}`,
+			useCache: false
+		};
+
+		const removeMock = this.plugin.providerRegistry.addTransient(mock);
+		try {
+			try {
+				const request = await this.plugin.blockExecutor.buildRequest(blockDefinition, input, config, testCase.inputs);
+				result.prompt = promptText(request);
+			} catch (error) {
+				result.failures.push({ message: `The executor failed: ${error instanceof Error ? error.message : error}` });
+				result.durationMs = Date.now() - started;
+				return result;
+			}
+
+			for (const text of expect.promptContains || []) {
+				if (!result.prompt.includes(text)) {
+					result.failures.push({ message: `The prompt doesn't contain "${text}"` });
+				}
+			}
+			for (const text of expect.promptExcludes || []) {
+				if (result.prompt.includes(text)) {
+					result.failures.push({ message: `The prompt contains "${text}"` });
+				}
+			}
+
+			const execution = await this.plugin.blockExecutor.executeBlock(blockDefinition.id, input, config, { inputs: testCase.inputs, recordUsage: false });
+			result.output = execution.output;
+			this.checkOutput(result, execution.success ? null : execution.error || 'Unknown error', expect);
+		} finally {
+			removeMock();
+		}
+
+		result.passed = result.failures.length === 0;
+		result.durationMs = Date.now() - started;
+		return result;
+	}
+
+	private checkOutput(result: BlockTestResult, error: string | null, expect: NonNullable<BlockTestCase['expect']>): void {
+		if (expect.error !== undefined) {
+			if (error === null) {
+				result.failures.push({ message: `The run should have failed with "${expect.error}"` });
+			} else if (!error.includes(expect.error)) {
+				result.failures.push({ message: 'The run failed with a different error', expected: expect.error, actual: error });
+			}
+			return;
+		}
+		if (error !== null) {
+			result.failures.push({ message: `The run failed: ${error}` });
+			return;
+		}
+
+		const output = result.output || '';
+		if (expect.output !== undefined && output.trim() !== expect.output.trim()) {
+			result.failures.push({ message: 'The output differs', expected: expect.output, actual: output });
+		}
+		for (const text of expect.outputContains || []) {
+			if (!output.includes(text)) {
+				result.failures.push({ message: `The output doesn't contain "${text}"` });
+			}
+		}
+	}
+}
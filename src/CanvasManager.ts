@@ -1,28 +1,94 @@
 import { TFile } from 'obsidian';
 import { LivingCanvasPlugin } from '../main';
+import {
+	BackgroundStyle,
+	CanvasColor,
+	CanvasFileFormat,
+	CanvasFormatError,
+	CanvasValidation,
+	JsonCanvasEdge,
+	parseCanvas,
+	serializeCanvas,
+	validateCanvas
+} from './JsonCanvas';
+import { Provenance } from './Provenance';
+
+// Block state stored on a Living Canvas node
+export interface LivingCanvasState {
+	blockType: string;
+	// 'stale' means the block completed, but its inputs or config have changed since
+	status: 'idle' | 'processing' | 'complete' | 'stale' | 'error';
+	config: any;
+	error?: string;
+	// Human-readable progress while processing, e.g. retry countdowns
+	statusMessage?: string;
+	// When the current run started; a 'processing' node with this set was interrupted if no run is active
+	startedAt?: number;
+	// The output node written by the latest successful run
+	outputNodeId?: string;
+	// Hash of the inputs and config the latest successful run used
+	inputHash?: string;
+}
+
+// An earlier result of a block, kept on its output node
+export interface OutputVersion {
+	text: string;
+	data?: unknown;
+	createdAt: number;
+	provenance?: Provenance;
+}
+
+// Stored on nodes generated by a block run
+export interface LivingCanvasOutput {
+	blockNodeId: string;
+	// Parsed result for blocks with an outputSchema
+	data?: unknown;
+	// When the current text was generated
+	createdAt?: number;
+	// How the current text was produced
+	provenance?: Provenance;
+	// Previous results, newest first
+	history?: OutputVersion[];
+	// The text from before the run in progress, until the run writes its result
+	previous?: OutputVersion;
+	// Added by a run that hasn't written its result yet; removed if that run was interrupted
+	provisional?: boolean;
+	// Batch runs: the group member this result is for, or the node collecting every result
+	batchMemberId?: string;
+	batchAggregate?: boolean;
+}
 
+// A node of any JSON Canvas type (see JsonCanvas.ts), with the fields of every type optional.
+// Nodes and edges are edited in place or by spreading, never rebuilt field by field, so fields
+// added by other plugins or newer versions of Obsidian are written back untouched.
 export interface CanvasNode {
 	id: string;
+	// 'text', 'file', 'link' or 'group'; other types are kept as they are
 	type: string;
-	text?: string;
 	x: number;
 	y: number;
 	width: number;
 	height: number;
-	livingCanvas?: {
-		blockType: string;
-		status: 'idle' | 'processing' | 'complete' | 'error';
-		config: any;
-		error?: string;
-	};
+	color?: CanvasColor;
+	// Markdown of 'text' nodes
+	text?: string;
+	// Vault path and optional #heading or #^block reference of 'file' nodes
+	file?: string;
+	subpath?: string;
+	// Address of 'link' nodes
+	url?: string;
+	// Title and background image of 'group' nodes
+	label?: string;
+	background?: string;
+	backgroundStyle?: BackgroundStyle;
+	livingCanvas?: LivingCanvasState;
+	// Set on nodes generated by a block run
+	livingCanvasOutput?: LivingCanvasOutput;
 }
 
-export interface CanvasEdge {
-	id: string;
-	fromNode: string;
-	toNode: string;
-	fromSide?: string;
-	toSide?: string;
+export interface CanvasEdge extends JsonCanvasEdge {
+	// Names the block input the edge feeds, e.g. 'essay' or 'rubric'
+	label?: string;
 }
 
 export interface CanvasData {
@@ -30,9 +96,119 @@ export interface CanvasData {
 	edges: CanvasEdge[];
 }
 
+// Changes made to a canvas inside CanvasManager.transaction. They apply to the file's
+// current content, so edits made since the caller last read the canvas are kept.
+export class CanvasTransaction {
+	readonly data: CanvasData;
+	changed = false;
+
+	constructor(data: CanvasData) {
+		this.data = data;
+	}
+
+	getNode(nodeId: string): CanvasNode | undefined {
+		return this.data.nodes.find(node => node.id === nodeId);
+	}
+
+	updateNode(nodeId: string, updates: Partial<CanvasNode>): boolean {
+		const node = this.getNode(nodeId);
+		if (!node) return false;
+		Object.assign(node, updates);
+		this.changed = true;
+		return true;
+	}
+
+	// Merge a patch into a block's state instead of replacing it, so concurrent
+	// changes to other fields (e.g. config saved mid-run) survive. Undefined values remove a field.
+	updateLivingCanvas(nodeId: string, patch: Partial<LivingCanvasState>): boolean {
+		const node = this.getNode(nodeId);
+		if (!node?.livingCanvas) return false;
+		const merged: Record<string, unknown> = { ...node.livingCanvas, ...patch };
+		for (const key of Object.keys(merged)) {
+			if (merged[key] === undefined) delete merged[key];
+		}
+		node.livingCanvas = merged as unknown as LivingCanvasState;
+		this.changed = true;
+		return true;
+	}
+
+	// Merge a patch into an output node's metadata. Undefined values remove a field.
+	updateOutput(nodeId: string, patch: Partial<LivingCanvasOutput>): boolean {
+		const node = this.getNode(nodeId);
+		if (!node?.livingCanvasOutput) return false;
+		const merged: Record<string, unknown> = { ...node.livingCanvasOutput, ...patch };
+		for (const key of Object.keys(merged)) {
+			if (merged[key] === undefined) delete merged[key];
+		}
+		node.livingCanvasOutput = merged as unknown as LivingCanvasOutput;
+		this.changed = true;
+		return true;
+	}
+
+	addNode(nodeData: Omit<CanvasNode, 'id'>): string {
+		const nodeId = generateNodeId();
+		this.data.nodes.push({ id: nodeId, ...nodeData });
+		this.changed = true;
+		return nodeId;
+	}
+
+	addEdge(fromNodeId: string, toNodeId: string): string | null {
+		if (!this.getNode(fromNodeId) || !this.getNode(toNodeId)) {
+			return null;
+		}
+		const edgeId = generateEdgeId();
+		this.data.edges.push({ id: edgeId, fromNode: fromNodeId, toNode: toNodeId });
+		this.changed = true;
+		return edgeId;
+	}
+
+	// Remove a node together with any edges attached to it
+	removeNode(nodeId: string): boolean {
+		const nodeCount = this.data.nodes.length;
+		this.data.nodes = this.data.nodes.filter(node => node.id !== nodeId);
+		if (this.data.nodes.length === nodeCount) return false;
+		this.data.edges = this.data.edges.filter(edge => edge.fromNode !== nodeId && edge.toNode !== nodeId);
+		this.changed = true;
+		return true;
+	}
+}
+
+// The parts of the core Canvas view's in-memory model used here. They aren't in the public typings.
+interface LiveCanvas {
+	nodes: Map<string, LiveCanvasNode>;
+	selection: Set<LiveCanvasNode>;
+	getData(): CanvasData;
+	// Replaces the view's content; existing nodes are updated rather than recreated
+	setData(data: CanvasData): void;
+	requestSave(): void;
+	selectOnly?(node: LiveCanvasNode): void;
+	zoomToSelection?(): void;
+	// Centre of the visible area, in canvas coordinates
+	x?: number;
+	y?: number;
+}
+
+interface LiveCanvasNode {
+	id: string;
+	nodeEl?: HTMLElement;
+	getData(): CanvasNode;
+	setData(data: CanvasNode): void;
+}
+
+interface QueuedTransaction {
+	mutator: (transaction: CanvasTransaction) => unknown;
+	resolve: (result: unknown) => void;
+}
+
 export class CanvasManager {
 	private plugin: LivingCanvasPlugin;
 	private currentCanvasFile: TFile | null = null;
+	// Transactions waiting to be written, per canvas path
+	private queuedTransactions = new Map<string, QueuedTransaction[]>();
+	// Canvas paths with a write in progress
+	private flushing = new Set<string>();
+	// Last format error shown per canvas path, so the same problem isn't reported on every read
+	private reportedErrors = new Map<string, string>();
 
 	constructor(plugin: LivingCanvasPlugin) {
 		this.plugin = plugin;
@@ -62,50 +238,254 @@ export class CanvasManager {
 		}
 
 		try {
-			const content = await this.plugin.app.vault.read(file);
-			if (!content.trim()) {
-				return { nodes: [], edges: [] };
-			}
-			const data = JSON.parse(content);
-			
-			// Ensure the data has the expected structure
-			if (!Array.isArray(data.nodes) || !Array.isArray(data.edges)) {
-				this.plugin.debug('Invalid canvas data structure - nodes and edges must be arrays');
-				return null;
+			// An open canvas may have edits that aren't saved yet
+			const liveCanvas = this.getLiveCanvas(file);
+			if (liveCanvas) {
+				return cloneCanvasData(liveCanvas.getData());
 			}
 
-			return data as CanvasData;
+			const content = await this.plugin.host.storage.read(file.path);
+			return this.parseCanvasData(content, file).data;
 		} catch (error) {
-			console.error('Error reading canvas data:', error);
+			this.reportError(file, error);
 			return null;
 		}
 	}
 
-	// Write canvas data to file
+	// Check a canvas file against the JSON Canvas spec, as saved on disk
+	async validateCanvasFile(canvasFile: TFile): Promise<CanvasValidation> {
+		const content = await this.plugin.host.storage.read(canvasFile.path);
+		if (!content.trim()) {
+			return { errors: [], warnings: [] };
+		}
+		try {
+			return validateCanvas(JSON.parse(content));
+		} catch (error) {
+			return { errors: [`Not valid JSON (${error instanceof Error ? error.message : String(error)})`], warnings: [] };
+		}
+	}
+
+	// Throws CanvasFormatError when the content isn't a usable canvas
+	private parseCanvasData(content: string, file: TFile): { data: CanvasData; format: CanvasFileFormat } {
+		const { data, format, warnings } = parseCanvas<CanvasData>(content);
+		if (warnings.length > 0) {
+			this.plugin.debug(`${file.path} has values outside the JSON Canvas spec (kept as they are):`, warnings);
+		}
+		this.reportedErrors.delete(file.path);
+		return { data, format };
+	}
+
+	// Show a format error once per distinct problem; other errors go to the console
+	private reportError(file: TFile, error: unknown): void {
+		if (!(error instanceof CanvasFormatError)) {
+			console.error('Error reading canvas data:', error);
+			return;
+		}
+		console.error(`[CanvasManager] ${file.path}: ${error.message}`);
+		if (this.reportedErrors.get(file.path) !== error.message) {
+			this.reportedErrors.set(file.path, error.message);
+			const shown = error.errors.slice(0, 3).join('\n');
+			const more = error.errors.length > 3 ? `\n…and ${error.errors.length - 3} more (see console)` : '';
+			this.plugin.host.notify(`Living Canvas: ${file.path}\n${error.summary}${shown ? `\n${shown}${more}` : ''}`, 10000);
+		}
+	}
+
+	// Refuse to write data that would break the canvas, e.g. a node left without an id
+	private assertWritable(data: CanvasData): void {
+		const { errors } = validateCanvas(data);
+		if (errors.length > 0) {
+			throw new CanvasFormatError('Canvas changes would make the file invalid; they were not written', errors);
+		}
+	}
+
+	// Replace the whole canvas with the given data
 	async writeCanvasData(data: CanvasData, canvasFile?: TFile): Promise<boolean> {
+		const result = await this.transaction(transaction => {
+			transaction.data.nodes = data.nodes;
+			transaction.data.edges = data.edges;
+			transaction.changed = true;
+			return true;
+		}, canvasFile);
+		return result === true;
+	}
+
+	// Apply changes to a canvas as one write. Transactions on the same file are queued, and
+	// those queued while a write is in progress are applied together in the next write.
+	// Resolves with the mutator's result, or null if the canvas couldn't be written.
+	transaction<T>(mutator: (transaction: CanvasTransaction) => T, canvasFile?: TFile): Promise<T | null> {
 		const file = canvasFile || this.currentCanvasFile;
 		if (!file) {
-			console.error(`[CanvasManager] No canvas file specified for writing`);
 			this.plugin.debug('No canvas file specified for writing');
-			return false;
+			return Promise.resolve(null);
 		}
 
-		console.log(`[CanvasManager] Writing canvas data to file: ${file.path}`);
-		console.log(`[CanvasManager] Data to write:`, data);
+		return new Promise<T | null>(resolve => {
+			const queue = this.queuedTransactions.get(file.path) || [];
+			queue.push({ mutator, resolve: resolve as (result: unknown) => void });
+			this.queuedTransactions.set(file.path, queue);
+			if (!this.flushing.has(file.path)) {
+				this.flushTransactions(file);
+			}
+		});
+	}
 
+	private async flushTransactions(file: TFile): Promise<void> {
+		this.flushing.add(file.path);
 		try {
-			const jsonString = JSON.stringify(data, null, 2);
-			console.log(`[CanvasManager] JSON string length: ${jsonString.length}`);
-			console.log(`[CanvasManager] JSON preview: ${jsonString.substring(0, 200)}...`);
-			
-			await this.plugin.app.vault.modify(file, jsonString);
-			console.log(`[CanvasManager] Canvas data written successfully to ${file.path}`);
-			this.plugin.debug('Canvas data written successfully');
-			return true;
+			let batch = this.queuedTransactions.get(file.path);
+			while (batch && batch.length > 0) {
+				this.queuedTransactions.delete(file.path);
+				await this.writeBatch(file, batch);
+				batch = this.queuedTransactions.get(file.path);
+			}
+		} finally {
+			this.flushing.delete(file.path);
+		}
+	}
+
+	// Apply every transaction in the batch at once: to the open canvas view if there is one,
+	// otherwise to the file in a single vault.process call
+	private async writeBatch(file: TFile, batch: QueuedTransaction[]): Promise<void> {
+		let results: unknown[] = [];
+		try {
+			const liveCanvas = this.getLiveCanvas(file);
+			if (liveCanvas) {
+				const before = liveCanvas.getData();
+				const applied = this.applyBatch(file, before, batch);
+				results = applied.results;
+				if (applied.changed) {
+					this.syncLiveCanvas(liveCanvas, before, applied.data);
+					liveCanvas.requestSave();
+				}
+				this.plugin.debug(`Applied ${batch.length} canvas transaction(s) to the open view of ${file.path}`);
+			} else {
+				// Written back in the file's own indentation, so only edited values change
+				await this.plugin.host.storage.process(file.path, (content) => {
+					const { data, format } = this.parseCanvasData(content, file);
+					const applied = this.applyBatch(file, data, batch);
+					results = applied.results;
+					if (!applied.changed) return content;
+					return serializeCanvas(applied.data, format);
+				});
+				this.plugin.debug(`Wrote ${batch.length} canvas transaction(s) to ${file.path}`);
+			}
+			batch.forEach((entry, index) => entry.resolve(results[index] ?? null));
 		} catch (error) {
-			console.error(`[CanvasManager] Error writing canvas data:`, error);
-			return false;
+			if (error instanceof CanvasFormatError) {
+				this.reportError(file, error);
+			} else {
+				console.error(`[CanvasManager] Error writing canvas data:`, error);
+			}
+			batch.forEach(entry => entry.resolve(null));
+		}
+	}
+
+	// Each transaction runs on a copy of the data and its changes are kept only if it succeeds and
+	// leaves the canvas valid. One that fails resolves with null; the others still apply.
+	private applyBatch(file: TFile, data: CanvasData, batch: QueuedTransaction[]): { data: CanvasData; changed: boolean; results: unknown[] } {
+		let current = data;
+		let changed = false;
+		const results = batch.map(entry => {
+			const transaction = new CanvasTransaction(cloneCanvasData(current));
+			try {
+				const result = entry.mutator(transaction);
+				if (transaction.changed) {
+					this.assertWritable(transaction.data);
+					current = transaction.data;
+					changed = true;
+				}
+				return result;
+			} catch (error) {
+				if (error instanceof CanvasFormatError) {
+					this.reportError(file, error);
+				} else {
+					console.error('[CanvasManager] Error applying canvas transaction:', error);
+				}
+				return null;
+			}
+		});
+		return { data: current, changed, results };
+	}
+
+	// Push changes into the open view. Nodes that only changed are updated in place; added or
+	// removed nodes and edges go through setData, which keeps the viewport and unchanged nodes.
+	private syncLiveCanvas(liveCanvas: LiveCanvas, before: CanvasData, after: CanvasData): void {
+		const previous = new Map(before.nodes.map(node => [node.id, JSON.stringify(node)]));
+		const structural = before.nodes.length !== after.nodes.length
+			|| after.nodes.some(node => !previous.has(node.id))
+			|| JSON.stringify(before.edges) !== JSON.stringify(after.edges);
+		if (structural) {
+			liveCanvas.setData(after);
+			return;
+		}
+
+		for (const node of after.nodes) {
+			if (previous.get(node.id) !== JSON.stringify(node)) {
+				liveCanvas.nodes.get(node.id)?.setData(node);
+			}
+		}
+	}
+
+	// The in-memory model of a canvas open in any leaf, or null if it's closed
+	private getLiveCanvas(file: TFile): LiveCanvas | null {
+		for (const view of this.plugin.host.getCanvasViews()) {
+			const canvas = view.canvas as LiveCanvas | undefined;
+			if (view.file?.path === file.path && typeof canvas?.getData === 'function') {
+				return canvas;
+			}
+		}
+		return null;
+	}
+
+	// IDs of the nodes selected in the open canvas view
+	getSelectedNodeIds(canvasFile?: TFile): string[] {
+		const file = canvasFile || this.currentCanvasFile;
+		const liveCanvas = file ? this.getLiveCanvas(file) : null;
+		if (!liveCanvas) return [];
+		return Array.from(liveCanvas.selection).map(node => node.id);
+	}
+
+	// Select a single node in the open canvas view
+	selectNode(nodeId: string, canvasFile?: TFile): boolean {
+		const file = canvasFile || this.currentCanvasFile;
+		const liveCanvas = file ? this.getLiveCanvas(file) : null;
+		const node = liveCanvas?.nodes.get(nodeId);
+		if (!liveCanvas?.selectOnly || !node) return false;
+		liveCanvas.selectOnly(node);
+		return true;
+	}
+
+	// Select a node in the open canvas view and bring it into view
+	revealNode(nodeId: string, canvasFile?: TFile): boolean {
+		if (!this.selectNode(nodeId, canvasFile)) return false;
+		const file = canvasFile || this.currentCanvasFile;
+		const liveCanvas = file ? this.getLiveCanvas(file) : null;
+		liveCanvas?.zoomToSelection?.();
+		return true;
+	}
+
+	// The element showing a node in the open canvas view, for decorations
+	getNodeElement(nodeId: string, canvasFile?: TFile): HTMLElement | null {
+		const file = canvasFile || this.currentCanvasFile;
+		const liveCanvas = file ? this.getLiveCanvas(file) : null;
+		return liveCanvas?.nodes.get(nodeId)?.nodeEl || null;
+	}
+
+	// Canvas files open in any leaf
+	getOpenCanvasFiles(): TFile[] {
+		const files = new Map<string, TFile>();
+		for (const view of this.plugin.host.getCanvasViews()) {
+			if (view.file) files.set(view.file.path, view.file);
 		}
+		return Array.from(files.values());
+	}
+
+	// Centre of the visible part of an open canvas
+	getViewportCenter(canvasFile?: TFile): { x: number; y: number } | null {
+		const file = canvasFile || this.currentCanvasFile;
+		const liveCanvas = file ? this.getLiveCanvas(file) : null;
+		if (typeof liveCanvas?.x !== 'number' || typeof liveCanvas?.y !== 'number') return null;
+		return { x: liveCanvas.x, y: liveCanvas.y };
 	}
 
 	// Get a specific node by ID
@@ -144,82 +524,37 @@ export class CanvasManager {
 
 	// Update node data
 	async updateNodeData(nodeId: string, updates: Partial<CanvasNode>, canvasFile?: TFile): Promise<boolean> {
-		const data = await this.readCanvasData(canvasFile);
-		if (!data) return false;
-
-		const nodeIndex = data.nodes.findIndex(node => node.id === nodeId);
-		if (nodeIndex === -1) {
-			this.plugin.debug(`Node ${nodeId} not found`);
-			return false;
+		const updated = await this.transaction(transaction => transaction.updateNode(nodeId, updates), canvasFile);
+		if (!updated) {
+			this.plugin.debug(`Node ${nodeId} not updated`);
 		}
+		return updated === true;
+	}
 
-		// Update the node
-		Object.assign(data.nodes[nodeIndex], updates);
-
-		return await this.writeCanvasData(data, canvasFile);
+	// Merge changes into a block's Living Canvas state
+	async updateLivingCanvas(nodeId: string, patch: Partial<LivingCanvasState>, canvasFile?: TFile): Promise<boolean> {
+		const updated = await this.transaction(transaction => transaction.updateLivingCanvas(nodeId, patch), canvasFile);
+		return updated === true;
 	}
 
 	// Create a new node
 	async createNode(nodeData: Omit<CanvasNode, 'id'>, canvasFile?: TFile): Promise<string | null> {
-		const file = canvasFile || this.currentCanvasFile;
-		console.log(`[CanvasManager] createNode called with file: ${file?.path || 'null'}`);
-		
-		const data = await this.readCanvasData(canvasFile);
-		if (!data) {
-			console.error(`[CanvasManager] Failed to read canvas data`);
-			return null;
-		}
-		console.log(`[CanvasManager] Canvas data read successfully:`, data);
-
-		// Generate a unique ID
-		const nodeId = this.generateNodeId();
-		console.log(`[CanvasManager] Generated nodeId: ${nodeId}`);
-		
-		// Create the node
-		const newNode: CanvasNode = {
-			id: nodeId,
-			...nodeData
-		};
-		console.log(`[CanvasManager] Created new node:`, newNode);
-
-		data.nodes.push(newNode);
-		console.log(`[CanvasManager] Added node to data. Total nodes: ${data.nodes.length}`);
-
-		console.log(`[CanvasManager] Calling writeCanvasData...`);
-		const success = await this.writeCanvasData(data, canvasFile);
-		console.log(`[CanvasManager] writeCanvasData returned: ${success}`);
-		
-		return success ? nodeId : null;
+		return await this.transaction(transaction => transaction.addNode(nodeData), canvasFile);
 	}
 
 	// Create an edge between two nodes
 	async createEdge(fromNodeId: string, toNodeId: string, canvasFile?: TFile): Promise<string | null> {
-		const data = await this.readCanvasData(canvasFile);
-		if (!data) return null;
-
-		// Check if both nodes exist
-		const fromNodeExists = data.nodes.some(node => node.id === fromNodeId);
-		const toNodeExists = data.nodes.some(node => node.id === toNodeId);
-		
-		if (!fromNodeExists || !toNodeExists) {
+		const edgeId = await this.transaction(transaction => transaction.addEdge(fromNodeId, toNodeId), canvasFile);
+		if (!edgeId) {
 			this.plugin.debug('One or both nodes do not exist');
-			return null;
 		}
+		return edgeId;
+	}
 
-		// Generate a unique edge ID
-		const edgeId = this.generateEdgeId();
-		
-		// Create the edge
-		const newEdge: CanvasEdge = {
-			id: edgeId,
-			fromNode: fromNodeId,
-			toNode: toNodeId
-		};
-
-		data.edges.push(newEdge);
-
-		const success = await this.writeCanvasData(data, canvasFile);
-		return success ? edgeId : null;
+	// Remove a node together with any edges attached to it
+	async removeNode(nodeId: string, canvasFile?: TFile): Promise<boolean> {
+		const removed = await this.transaction(transaction => transaction.removeNode(nodeId), canvasFile);
+		return removed === true;
 	}
 
 	// Get all living canvas nodes
@@ -235,30 +570,17 @@ export class CanvasManager {
 		const livingNodes = await this.getLivingCanvasNodes(canvasFile);
 		return livingNodes.filter(node => node.livingCanvas?.blockType === blockType);
 	}
+}
 
-	// Utility methods
-	private generateNodeId(): string {
-		return 'node_' + Math.random().toString(36).substr(2, 9);
-	}
-
-	private generateEdgeId(): string {
-		return 'edge_' + Math.random().toString(36).substr(2, 9);
-	}
+// Utility functions
+function cloneCanvasData(data: CanvasData): CanvasData {
+	return JSON.parse(JSON.stringify(data));
+}
 
-	// Calculate position for new node near parent
-	calculateNewNodePosition(parentNode: CanvasNode, offset = 300): { x: number; y: number } {
-		return {
-			x: parentNode.x + parentNode.width + offset,
-			y: parentNode.y
-		};
-	}
+function generateNodeId(): string {
+	return 'node_' + Math.random().toString(36).substr(2, 9);
+}
 
-	// Get concatenated text from source nodes
-	async getSourceText(nodeId: string, canvasFile?: TFile): Promise<string> {
-		const sourceNodes = await this.getSourceNodes(nodeId, canvasFile);
-		return sourceNodes
-			.map(node => node.text || '')
-			.filter(text => text.trim().length > 0)
-			.join('\n\n');
-	}
+function generateEdgeId(): string {
+	return 'edge_' + Math.random().toString(36).substr(2, 9);
 }
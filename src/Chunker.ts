@@ -0,0 +1,109 @@
+import { ChatRequest } from './providers/AIProvider';
+
+// How a block handles input that doesn't fit the model's context window:
+// 'map-reduce' runs each chunk then combines the results, 'concatenate' joins the
+// per-chunk outputs in order, 'none' sends the input as-is.
+export type ChunkingMode = 'map-reduce' | 'concatenate' | 'none';
+
+// Context window sizes in tokens, keyed by bare model name or full "provider:model" reference
+export const DEFAULT_CONTEXT_LIMITS: Record<string, number> = {
+	'gpt-3.5-turbo': 16385,
+	'gpt-4': 8192,
+	'claude-3-sonnet': 200000,
+	'claude-3-haiku': 200000
+};
+
+// Rough token count; about four characters per token for English text
+export function estimateTokens(text: string): number {
+	return Math.ceil(text.length / 4);
+}
+
+export function estimateRequestTokens(request: ChatRequest): number {
+	// A few tokens of framing per message on top of the content
+	let total = request.system ? estimateTokens(request.system) + 4 : 0;
+	for (const message of request.messages) {
+		total += estimateTokens(message.content) + 4;
+	}
+	return total;
+}
+
+// Split text into chunks of at most maxTokens, breaking at headings first, then paragraphs,
+// then sentences. Only text with no break points at all is cut mid-sentence.
+export function splitIntoChunks(text: string, maxTokens: number): string[] {
+	const pieces: string[] = [];
+	for (const section of splitSections(text)) {
+		if (estimateTokens(section) <= maxTokens) {
+			pieces.push(section);
+			continue;
+		}
+		for (const paragraph of section.split(/\n\s*\n/)) {
+			if (estimateTokens(paragraph) <= maxTokens) {
+				pieces.push(paragraph);
+			} else {
+				pieces.push(...splitLongText(paragraph, maxTokens));
+			}
+		}
+	}
+
+	// Pack pieces greedily so each chunk is as full as possible
+	const chunks: string[] = [];
+	let current = '';
+	for (const piece of pieces) {
+		if (!piece.trim()) continue;
+		const candidate = current ? `${current}\n\n${piece}` : piece;
+		if (current && estimateTokens(candidate) > maxTokens) {
+			chunks.push(current);
+			current = piece;
+		} else {
+			current = candidate;
+		}
+	}
+	if (current) {
+		chunks.push(current);
+	}
+	return chunks;
+}
+
+// Sections start at markdown headings so a heading stays with its content
+function splitSections(text: string): string[] {
+	const sections: string[] = [];
+	let current: string[] = [];
+	for (const line of text.split('\n')) {
+		if (/^#{1,6}\s/.test(line) && current.some(existing => existing.trim())) {
+			sections.push(current.join('\n').trim());
+			current = [];
+		}
+		current.push(line);
+	}
+	if (current.some(line => line.trim())) {
+		sections.push(current.join('\n').trim());
+	}
+	return sections;
+}
+
+function splitLongText(text: string, maxTokens: number): string[] {
+	const maxChars = maxTokens * 4;
+	const sentences = text.match(/[^.!?]+(?:[.!?]+\s*|$)/g) || [text];
+	const parts: string[] = [];
+	let current = '';
+	for (const sentence of sentences) {
+		if (sentence.length > maxChars) {
+			if (current) {
+				parts.push(current.trim());
+				current = '';
+			}
+			for (let start = 0; start < sentence.length; start += maxChars) {
+				parts.push(sentence.slice(start, start + maxChars).trim());
+			}
+		} else if ((current + sentence).length > maxChars) {
+			parts.push(current.trim());
+			current = sentence;
+		} else {
+			current += sentence;
+		}
+	}
+	if (current.trim()) {
+		parts.push(current.trim());
+	}
+	return parts;
+}
@@ -0,0 +1,337 @@
+import { parse } from 'acorn';
+import { hashValue } from './hash';
+import { SandboxWorker } from './host/Host';
+
+// What a block may ask for through ctx, declared in block.json as "permissions"
+export type BlockPermission = 'read-notes' | 'call-model';
+
+// Shown when the user is asked to approve a block's permissions
+export const BLOCK_PERMISSIONS: Record<BlockPermission, string> = {
+	'read-notes': 'Read notes in your vault',
+	'call-model': 'Make extra calls to the AI model, using your API key'
+};
+
+// What a permission approval is tied to: a changed executor or permission list needs a new one
+export function hashExecutor(code: string, permissions: BlockPermission[]): Promise<string> {
+	return hashValue({ code, permissions: [...permissions].sort() });
+}
+
+// The ctx methods an executor can call, and the permission each needs (log needs none)
+const CAPABILITY_PERMISSIONS: Record<string, BlockPermission | null> = {
+	readNote: 'read-notes',
+	callModel: 'call-model',
+	log: null
+};
+
+// However long its ctx calls take, no call runs longer than this in all
+const MAX_CALL_MS = 5 * 60 * 1000;
+
+// How the ctx methods are carried out, by the plugin rather than the executor
+export interface ExecutorCapabilities {
+	readNote(path: string): Promise<string>;
+	callModel(prompt: unknown): Promise<string>;
+	log(message: string): void;
+}
+
+export interface SandboxOptions {
+	blockId: string;
+	// Time the executor may spend computing per call; time waiting on ctx calls isn't counted,
+	// up to MAX_CALL_MS for the whole call
+	timeoutMs: number;
+	// Permissions the block declares, and those of them the user has approved
+	declared: BlockPermission[];
+	granted: BlockPermission[];
+	capabilities: ExecutorCapabilities;
+}
+
+// Runs inside the worker, in a browser (Obsidian) or as a Node worker thread (headless runner).
+// The executor gets no require, only ctx, whose calls are answered by the plugin. The ways to
+// reach the network that workers have (fetch and the like, nested workers) are removed, and so are
+// the ways to build code from strings, which could bring them back. Code using import() never gets here.
+const WORKER_SOURCE = `
+// In a closure, so none of this is in scope for the executor's code
+(() => {
+	const channel = typeof self !== 'undefined' && typeof self.postMessage === 'function'
+		? { send: message => self.postMessage(message), listen: fn => self.addEventListener('message', event => fn(event.data)) }
+		: (() => {
+			const { parentPort } = require('worker_threads');
+			for (const name of ['require', 'module', 'exports', '__filename', '__dirname']) delete globalThis[name];
+			return { send: message => parentPort.postMessage(message), listen: fn => parentPort.on('message', fn) };
+		})();
+
+	// Kept for loading the executor, before it's removed below
+	const compile = Function;
+
+	const removed = [
+		'fetch', 'XMLHttpRequest', 'WebSocket', 'WebSocketStream', 'WebTransport', 'EventSource', 'importScripts',
+		'indexedDB', 'caches', 'Worker', 'SharedWorker', 'eval', 'Function'
+	];
+	for (const name of removed) {
+		for (let scope = globalThis; scope; scope = Object.getPrototypeOf(scope)) {
+			if (Object.prototype.hasOwnProperty.call(scope, name)) {
+				try {
+					Object.defineProperty(scope, name, { value: undefined, writable: false, configurable: false });
+				} catch (error) {
+					// Left as is where the runtime doesn't allow it
+				}
+			}
+		}
+	}
+	for (const fn of [function () {}, async function () {}, function* () {}, async function* () {}]) {
+		try {
+			Object.defineProperty(Object.getPrototypeOf(fn), 'constructor', { value: undefined, writable: false, configurable: false });
+		} catch (error) {
+			// Left as is where the runtime doesn't allow it
+		}
+	}
+	for (const name of ['setTimeout', 'setInterval']) {
+		const timer = globalThis[name];
+		if (typeof timer === 'function') {
+			globalThis[name] = (handler, ...args) => {
+				if (typeof handler !== 'function') throw new Error(name + ' needs a function, not code in a string');
+				return timer(handler, ...args);
+			};
+		}
+	}
+
+	const pending = new Map();
+	let nextRequest = 0;
+	const request = (method, args) => new Promise((resolve, reject) => {
+		const id = ++nextRequest;
+		pending.set(id, { resolve, reject });
+		channel.send({ type: 'ctx', id, method, args });
+	});
+	const describe = value => typeof value === 'string' ? value : JSON.stringify(value);
+	const ctx = Object.freeze({
+		readNote: path => request('readNote', [path]),
+		callModel: prompt => request('callModel', [prompt]),
+		log: (...args) => request('log', [args.map(describe).join(' ')])
+	});
+
+	let exported = {};
+	const load = code => {
+		const module = { exports: {} };
+		const noRequire = id => {
+			throw new Error("Executors can't load modules ('" + id + "'); use the ctx API instead");
+		};
+		compile('module', 'exports', 'require', 'ctx', code)(module, module.exports, noRequire, ctx);
+		exported = module.exports || {};
+		return Object.keys(exported).filter(key => typeof exported[key] === 'function');
+	};
+
+	channel.listen(async message => {
+		try {
+			if (message.type === 'load') {
+				channel.send({ type: 'result', value: load(message.code) });
+			} else if (message.type === 'call') {
+				channel.send({ type: 'result', value: await exported[message.fn](...message.args, ctx) });
+			} else if (message.type === 'reply') {
+				const waiting = pending.get(message.id);
+				pending.delete(message.id);
+				if (!waiting) return;
+				if (message.error !== undefined) waiting.reject(new Error(message.error));
+				else waiting.resolve(message.value);
+			}
+		} catch (error) {
+			channel.send({ type: 'error', message: error && error.message ? error.message : String(error) });
+		}
+	});
+})();
+`;
+
+type WorkerMessage =
+	| { type: 'result'; value: unknown }
+	| { type: 'error'; message: string }
+	| { type: 'ctx'; id: number; method: string; args: unknown[] };
+
+// The call the worker is working on; only one runs at a time
+interface ActiveCall {
+	resolve: (value: unknown) => void;
+	reject: (error: Error) => void;
+	remainingMs: number;
+	startedAt: number;
+	timer: number | null;
+	// ctx calls being answered
+	waiting: number;
+	// Stops the call at MAX_CALL_MS, ctx calls or not
+	deadline: number;
+}
+
+// import() can't be removed from the worker like the globals, so code that uses it isn't run. The
+// code is parsed rather than searched, so a comment can't hide a call and a string can mention one.
+function checkExecutorCode(code: string, blockId: string): void {
+	let program: unknown;
+	try {
+		program = parse(code, { ecmaVersion: 'latest', sourceType: 'script', allowReturnOutsideFunction: true });
+	} catch (error) {
+		throw new Error(`Executor of '${blockId}' has a syntax error: ${error instanceof Error ? error.message : String(error)}`);
+	}
+	if (containsImport(program)) {
+		throw new Error("Executors can't use import(); use the ctx API instead");
+	}
+}
+
+function containsImport(node: unknown): boolean {
+	if (!node || typeof node !== 'object') return false;
+	if (Array.isArray(node)) return node.some(containsImport);
+	if ((node as { type?: unknown }).type === 'ImportExpression') return true;
+	return Object.values(node).some(containsImport);
+}
+
+// A block's executor.js running in a worker. It has the shape of the module (execute, plus render
+// and reduce if the file exports them) but every call crosses into the worker and is timed.
+export class SandboxedExecutor {
+	execute: (inputText: string, config: unknown, inputs: Record<string, string>) => Promise<unknown>;
+	render?: (data: unknown, config: unknown) => Promise<string>;
+	reduce?: (outputs: string[], config: unknown) => Promise<unknown>;
+
+	private worker: SandboxWorker;
+	private options: SandboxOptions;
+	private active: ActiveCall | null = null;
+	private queue: Promise<unknown> = Promise.resolve();
+	// Set once the worker is gone; later calls fail with it
+	private failure: Error | null = null;
+
+	private constructor(worker: SandboxWorker, options: SandboxOptions) {
+		this.worker = worker;
+		this.options = options;
+		worker.onMessage(message => this.handleMessage(message as WorkerMessage));
+		worker.onError(error => this.stop(new Error(`Executor of '${options.blockId}' crashed: ${error.message}`)));
+	}
+
+	// Start a worker and evaluate the executor's code in it
+	static async load(createWorker: (source: string) => SandboxWorker, code: string, options: SandboxOptions): Promise<SandboxedExecutor> {
+		checkExecutorCode(code, options.blockId);
+		const sandbox = new SandboxedExecutor(createWorker(WORKER_SOURCE), options);
+		try {
+			const exported = await sandbox.send({ type: 'load', code }) as string[];
+			if (!exported.includes('execute')) {
+				throw new Error(`Executor of '${options.blockId}' doesn't export an execute function`);
+			}
+			sandbox.execute = (inputText, config, inputs) => sandbox.call('execute', [inputText, config, inputs]);
+			if (exported.includes('render')) {
+				sandbox.render = async (data, config) => String(await sandbox.call('render', [data, config]));
+			}
+			if (exported.includes('reduce')) {
+				sandbox.reduce = (outputs, config) => sandbox.call('reduce', [outputs, config]);
+			}
+			return sandbox;
+		} catch (error) {
+			sandbox.dispose();
+			throw error;
+		}
+	}
+
+	dispose(): void {
+		this.stop(new Error(`Executor of '${this.options.blockId}' was stopped`));
+	}
+
+	private call(fn: string, args: unknown[]): Promise<unknown> {
+		return this.send({ type: 'call', fn, args });
+	}
+
+	// Calls wait for the previous one, so the time limit and ctx replies belong to a single call
+	private send(message: Record<string, unknown>): Promise<unknown> {
+		const result = this.queue.then(() => new Promise<unknown>((resolve, reject) => {
+			if (this.failure) {
+				reject(this.failure);
+				return;
+			}
+			const deadline = window.setTimeout(() => {
+				this.stop(new Error(`Executor of '${this.options.blockId}' didn't finish within ${MAX_CALL_MS / 60000} minutes and was stopped`));
+			}, MAX_CALL_MS);
+			this.active = { resolve, reject, remainingMs: this.options.timeoutMs, startedAt: 0, timer: null, waiting: 0, deadline };
+			this.startClock();
+			this.worker.postMessage(message);
+		}));
+		this.queue = result.catch(() => undefined);
+		return result;
+	}
+
+	private async handleMessage(message: WorkerMessage): Promise<void> {
+		const active = this.active;
+		if (!active) return;
+
+		if (message.type === 'result' || message.type === 'error') {
+			this.pauseClock();
+			window.clearTimeout(active.deadline);
+			this.active = null;
+			if (message.type === 'result') {
+				active.resolve(message.value);
+			} else {
+				active.reject(new Error(message.message));
+			}
+			return;
+		}
+
+		// The clock stops while the plugin answers ctx calls; the deadline doesn't
+		active.waiting++;
+		this.pauseClock();
+		let reply: { value?: unknown; error?: string };
+		try {
+			reply = { value: await this.runCapability(message.method, message.args) };
+		} catch (error) {
+			reply = { error: error instanceof Error ? error.message : String(error) };
+		}
+		if (this.active !== active) return;
+		active.waiting--;
+		if (active.waiting === 0) this.startClock();
+		this.worker.postMessage({ type: 'reply', id: message.id, ...reply });
+	}
+
+	private async runCapability(method: string, args: unknown[]): Promise<unknown> {
+		const { blockId, declared, granted, capabilities } = this.options;
+		if (!(method in CAPABILITY_PERMISSIONS)) {
+			throw new Error(`ctx.${method} doesn't exist`);
+		}
+		const permission = CAPABILITY_PERMISSIONS[method];
+		if (permission && !declared.includes(permission)) {
+			throw new Error(`ctx.${method} needs the '${permission}' permission, which '${blockId}' doesn't declare in its block.json`);
+		}
+		if (permission && !granted.includes(permission)) {
+			throw new Error(`The '${permission}' permission hasn't been approved for '${blockId}'. Approve it under Block Permissions in the settings.`);
+		}
+
+		switch (method) {
+			case 'readNote':
+				return capabilities.readNote(String(args[0]));
+			case 'callModel':
+				return capabilities.callModel(args[0]);
+			default:
+				capabilities.log(String(args[0]));
+				return undefined;
+		}
+	}
+
+	private startClock(): void {
+		const active = this.active;
+		if (!active) return;
+		active.startedAt = Date.now();
+		active.timer = window.setTimeout(() => {
+			const seconds = Math.round(this.options.timeoutMs / 100) / 10;
+			this.stop(new Error(`Executor of '${this.options.blockId}' ran for more than ${seconds}s and was stopped`));
+		}, Math.max(0, active.remainingMs));
+	}
+
+	private pauseClock(): void {
+		const active = this.active;
+		if (!active || active.timer === null) return;
+		window.clearTimeout(active.timer);
+		active.timer = null;
+		active.remainingMs -= Date.now() - active.startedAt;
+	}
+
+	// Terminate the worker and fail the call in progress, if any
+	private stop(error: Error): void {
+		if (this.failure) return;
+		this.failure = error;
+		this.pauseClock();
+		this.worker.terminate();
+		const active = this.active;
+		this.active = null;
+		if (active) {
+			window.clearTimeout(active.deadline);
+			active.reject(error);
+		}
+	}
+}
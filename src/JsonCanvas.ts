@@ -0,0 +1,317 @@
+// Types and validation for the JSON Canvas format (https://jsoncanvas.org/spec/1.0/) used by .canvas files
+
+// A preset from '1' (red) to '6' (purple), or a hex color such as '#FF0000'
+export type CanvasColor = string;
+
+export type CanvasNodeType = 'text' | 'file' | 'link' | 'group';
+
+export type NodeSide = 'top' | 'right' | 'bottom' | 'left';
+
+// Edge ends default to 'none' at fromNode and 'arrow' at toNode
+export type EdgeEnd = 'none' | 'arrow';
+
+export type BackgroundStyle = 'cover' | 'ratio' | 'repeat';
+
+interface JsonCanvasNodeBase {
+	id: string;
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+	color?: CanvasColor;
+}
+
+export interface TextNode extends JsonCanvasNodeBase {
+	type: 'text';
+	// Markdown
+	text: string;
+}
+
+export interface FileNode extends JsonCanvasNodeBase {
+	type: 'file';
+	// Path within the vault
+	file: string;
+	// Heading or block within the file, starting with '#'
+	subpath?: string;
+}
+
+export interface LinkNode extends JsonCanvasNodeBase {
+	type: 'link';
+	url: string;
+}
+
+export interface GroupNode extends JsonCanvasNodeBase {
+	type: 'group';
+	label?: string;
+	// Path to a background image
+	background?: string;
+	backgroundStyle?: BackgroundStyle;
+}
+
+// Nodes are listed in z-order: later nodes are drawn on top of earlier ones
+export type JsonCanvasNode = TextNode | FileNode | LinkNode | GroupNode;
+
+export interface JsonCanvasEdge {
+	id: string;
+	fromNode: string;
+	fromSide?: NodeSide;
+	fromEnd?: EdgeEnd;
+	toNode: string;
+	toSide?: NodeSide;
+	toEnd?: EdgeEnd;
+	color?: CanvasColor;
+	label?: string;
+}
+
+export interface JsonCanvas {
+	nodes?: JsonCanvasNode[];
+	edges?: JsonCanvasEdge[];
+}
+
+export interface CanvasValidation {
+	// Problems that make the canvas unusable, e.g. a node without an id
+	errors: string[];
+	// Values outside the spec that are kept as they are, e.g. a node type from a newer version
+	warnings: string[];
+}
+
+// Thrown when a canvas file can't be read or would be written in an invalid state
+export class CanvasFormatError extends Error {
+	// The message without the list of problems
+	summary: string;
+	errors: string[];
+
+	constructor(summary: string, errors: string[] = []) {
+		super(errors.length > 0 ? `${summary}:\n${errors.map(error => `- ${error}`).join('\n')}` : summary);
+		this.name = 'CanvasFormatError';
+		this.summary = summary;
+		this.errors = errors;
+	}
+}
+
+// How a canvas file is laid out, so writing it back changes only what was edited
+export interface CanvasFileFormat {
+	indent: string;
+	// One node or edge per line, the way Obsidian writes canvases
+	itemPerLine: boolean;
+	finalNewline: boolean;
+	// Top-level arrays missing from the file; they stay missing while empty
+	missing: ('nodes' | 'edges')[];
+}
+
+export interface ParsedCanvas<T> {
+	data: T;
+	format: CanvasFileFormat;
+	warnings: string[];
+}
+
+const NODE_TYPES: CanvasNodeType[] = ['text', 'file', 'link', 'group'];
+const SIDES: NodeSide[] = ['top', 'right', 'bottom', 'left'];
+const ENDS: EdgeEnd[] = ['none', 'arrow'];
+const BACKGROUND_STYLES: BackgroundStyle[] = ['cover', 'ratio', 'repeat'];
+
+// Check parsed canvas data against the spec. Messages name the node or edge, e.g.
+// 'nodes[3] (id "a1b2"): "width" must be a number'. Fields not in the spec are allowed.
+export function validateCanvas(value: unknown): CanvasValidation {
+	const result: CanvasValidation = { errors: [], warnings: [] };
+	if (!isObject(value)) {
+		result.errors.push('the top level must be an object with "nodes" and "edges" arrays');
+		return result;
+	}
+
+	for (const key of ['nodes', 'edges']) {
+		if (value[key] !== undefined && !Array.isArray(value[key])) {
+			result.errors.push(`"${key}" must be an array`);
+		}
+	}
+	const nodes = Array.isArray(value.nodes) ? value.nodes : [];
+	const edges = Array.isArray(value.edges) ? value.edges : [];
+
+	const nodeIds = new Set<string>();
+	nodes.forEach((node, index) => validateNode(node, `nodes[${index}]`, nodeIds, result));
+
+	const edgeIds = new Set<string>();
+	edges.forEach((edge, index) => validateEdge(edge, `edges[${index}]`, nodeIds, edgeIds, result));
+	return result;
+}
+
+// Parse a canvas file. Missing arrays are filled in, and every field is kept, including ones this
+// plugin doesn't know about. Throws CanvasFormatError with every problem found.
+export function parseCanvas<T extends object = Required<JsonCanvas>>(content: string): ParsedCanvas<T> {
+	const format = detectFormat(content);
+	if (!content.trim()) {
+		return { data: { nodes: [], edges: [] } as unknown as T, format, warnings: [] };
+	}
+
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(content);
+	} catch (error) {
+		throw new CanvasFormatError(`Not valid JSON (${error instanceof Error ? error.message : String(error)})`);
+	}
+
+	const validation = validateCanvas(parsed);
+	if (validation.errors.length > 0) {
+		throw new CanvasFormatError('Not a valid canvas', validation.errors);
+	}
+
+	const data = parsed as Record<string, unknown>;
+	format.missing = (['nodes', 'edges'] as const).filter(key => data[key] === undefined);
+	data.nodes = data.nodes || [];
+	data.edges = data.edges || [];
+	return { data: data as unknown as T, format, warnings: validation.warnings };
+}
+
+// Serialize canvas data in the file's own layout. Key order and unknown fields are kept
+// because the data is the parsed object itself, edited in place.
+export function serializeCanvas(data: object, format: CanvasFileFormat): string {
+	let output: object = data;
+	const record = data as Record<string, unknown>;
+	const omit = format.missing.filter(key => Array.isArray(record[key]) && (record[key] as unknown[]).length === 0);
+	if (omit.length > 0) {
+		output = Object.fromEntries(Object.entries(record).filter(([key]) => !omit.includes(key as 'nodes' | 'edges')));
+	}
+	const json = format.itemPerLine ? stringifyItemPerLine(output as Record<string, unknown>, format.indent) : JSON.stringify(output, null, format.indent);
+	return format.finalNewline ? `${json}\n` : json;
+}
+
+// Obsidian writes canvases indented with tabs; other tools may use spaces or no indentation
+export function detectFormat(content: string): CanvasFileFormat {
+	const indent = /\n([ \t]+)\S/.exec(content)?.[1];
+	return {
+		indent: indent === undefined ? (content.trim() ? '' : '\t') : indent.startsWith('\t') ? '\t' : indent,
+		itemPerLine: !content.trim() || /"(nodes|edges)":\[/.test(content) || /\n[ \t]+\{".*\},?[ \t]*\r?\n/.test(content),
+		finalNewline: content.endsWith('\n'),
+		missing: []
+	};
+}
+
+// {
+// 	"nodes":[
+// 		{"id":"…","type":"text",…},
+// 		…
+// 	],
+// 	"edges":[]
+// }
+function stringifyItemPerLine(data: Record<string, unknown>, indent: string): string {
+	const entries = Object.entries(data)
+		.filter(([, value]) => value !== undefined)
+		.map(([key, value]) => {
+			const items = Array.isArray(value) && value.length > 0
+				? `[\n${value.map(item => `${indent}${indent}${JSON.stringify(item)}`).join(',\n')}\n${indent}]`
+				: JSON.stringify(value);
+			return `${indent}${JSON.stringify(key)}:${items}`;
+		});
+	return `{\n${entries.join(',\n')}\n}`;
+}
+
+function validateNode(node: unknown, path: string, ids: Set<string>, result: CanvasValidation): void {
+	if (!isObject(node)) {
+		result.errors.push(`${path}: must be an object`);
+		return;
+	}
+
+	const where = typeof node.id === 'string' ? `${path} (id "${node.id}")` : path;
+	if (typeof node.id !== 'string' || !node.id) {
+		result.errors.push(`${path}: "id" must be a non-empty string`);
+	} else if (ids.has(node.id)) {
+		result.warnings.push(`${where}: the id is used by another node`);
+	} else {
+		ids.add(node.id);
+	}
+
+	for (const key of ['x', 'y', 'width', 'height']) {
+		const value = node[key];
+		if (typeof value !== 'number' || !isFinite(value)) {
+			result.errors.push(`${where}: "${key}" must be a number`);
+		} else if (!Number.isInteger(value)) {
+			result.warnings.push(`${where}: "${key}" should be a whole number`);
+		}
+	}
+	checkColor(node.color, where, result);
+
+	switch (node.type) {
+		case 'text':
+			requireString(node, 'text', where, result);
+			break;
+		case 'file':
+			requireString(node, 'file', where, result);
+			if (node.subpath !== undefined && (typeof node.subpath !== 'string' || !node.subpath.startsWith('#'))) {
+				result.warnings.push(`${where}: "subpath" should be a string starting with "#"`);
+			}
+			break;
+		case 'link':
+			requireString(node, 'url', where, result);
+			break;
+		case 'group':
+			for (const key of ['label', 'background']) {
+				if (node[key] !== undefined && typeof node[key] !== 'string') {
+					result.warnings.push(`${where}: "${key}" should be a string`);
+				}
+			}
+			checkOption(node.backgroundStyle, BACKGROUND_STYLES, 'backgroundStyle', where, result);
+			break;
+		default:
+			if (typeof node.type !== 'string') {
+				result.errors.push(`${where}: "type" must be one of ${NODE_TYPES.join(', ')}`);
+			} else {
+				result.warnings.push(`${where}: unknown node type "${node.type}"`);
+			}
+	}
+}
+
+function validateEdge(edge: unknown, path: string, nodeIds: Set<string>, ids: Set<string>, result: CanvasValidation): void {
+	if (!isObject(edge)) {
+		result.errors.push(`${path}: must be an object`);
+		return;
+	}
+
+	const where = typeof edge.id === 'string' ? `${path} (id "${edge.id}")` : path;
+	if (typeof edge.id !== 'string' || !edge.id) {
+		result.errors.push(`${path}: "id" must be a non-empty string`);
+	} else if (ids.has(edge.id)) {
+		result.warnings.push(`${where}: the id is used by another edge`);
+	} else {
+		ids.add(edge.id);
+	}
+
+	for (const key of ['fromNode', 'toNode']) {
+		const value = edge[key];
+		if (typeof value !== 'string') {
+			result.errors.push(`${where}: "${key}" must be a node id`);
+		} else if (!nodeIds.has(value)) {
+			result.warnings.push(`${where}: "${key}" points to a node that doesn't exist ("${value}")`);
+		}
+	}
+	checkOption(edge.fromSide, SIDES, 'fromSide', where, result);
+	checkOption(edge.toSide, SIDES, 'toSide', where, result);
+	checkOption(edge.fromEnd, ENDS, 'fromEnd', where, result);
+	checkOption(edge.toEnd, ENDS, 'toEnd', where, result);
+	checkColor(edge.color, where, result);
+	if (edge.label !== undefined && typeof edge.label !== 'string') {
+		result.errors.push(`${where}: "label" must be a string`);
+	}
+}
+
+// The content fields of a node; a missing one leaves the node empty rather than breaking the canvas
+function requireString(item: Record<string, unknown>, key: string, where: string, result: CanvasValidation): void {
+	if (typeof item[key] !== 'string') {
+		result.warnings.push(`${where}: "${key}" should be a string`);
+	}
+}
+
+function checkOption(value: unknown, options: string[], key: string, where: string, result: CanvasValidation): void {
+	if (value !== undefined && !options.includes(value as string)) {
+		result.warnings.push(`${where}: "${key}" should be one of ${options.join(', ')}`);
+	}
+}
+
+function checkColor(value: unknown, where: string, result: CanvasValidation): void {
+	if (value !== undefined && (typeof value !== 'string' || !/^([1-6]|#[0-9a-fA-F]{3}|#[0-9a-fA-F]{6})$/.test(value))) {
+		result.warnings.push(`${where}: "color" should be a preset from "1" to "6" or a hex color like "#FF0000"`);
+	}
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
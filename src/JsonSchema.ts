@@ -0,0 +1,151 @@
+// The subset of JSON Schema that blocks can use to describe structured output
+export interface JsonSchema {
+	type?: JsonSchemaType | JsonSchemaType[];
+	description?: string;
+	properties?: Record<string, JsonSchema>;
+	required?: string[];
+	additionalProperties?: boolean;
+	items?: JsonSchema;
+	enum?: unknown[];
+	minimum?: number;
+	maximum?: number;
+	minLength?: number;
+	maxLength?: number;
+	minItems?: number;
+	maxItems?: number;
+}
+
+export type JsonSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+// Validate a value against a schema, returning readable errors such as
+// "$.questions[2].answer: expected string, got number". An empty list means valid.
+export function validateJsonSchema(schema: JsonSchema, value: unknown, path = '$'): string[] {
+	const errors: string[] = [];
+
+	if (schema.type !== undefined) {
+		const allowed = Array.isArray(schema.type) ? schema.type : [schema.type];
+		const actual = jsonTypeOf(value);
+		const matches = allowed.some(type => type === actual || (type === 'number' && actual === 'integer'));
+		if (!matches) {
+			errors.push(`${path}: expected ${allowed.join(' or ')}, got ${actual}`);
+			return errors;
+		}
+	}
+
+	if (schema.enum && !schema.enum.some(option => JSON.stringify(option) === JSON.stringify(value))) {
+		errors.push(`${path}: must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+	}
+
+	if (typeof value === 'number') {
+		if (schema.minimum !== undefined && value < schema.minimum) {
+			errors.push(`${path}: must be at least ${schema.minimum}`);
+		}
+		if (schema.maximum !== undefined && value > schema.maximum) {
+			errors.push(`${path}: must be at most ${schema.maximum}`);
+		}
+	}
+
+	if (typeof value === 'string') {
+		if (schema.minLength !== undefined && value.length < schema.minLength) {
+			errors.push(`${path}: must be at least ${schema.minLength} characters`);
+		}
+		if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+			errors.push(`${path}: must be at most ${schema.maxLength} characters`);
+		}
+	}
+
+	if (Array.isArray(value)) {
+		if (schema.minItems !== undefined && value.length < schema.minItems) {
+			errors.push(`${path}: must have at least ${schema.minItems} items`);
+		}
+		if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+			errors.push(`${path}: must have at most ${schema.maxItems} items`);
+		}
+		if (schema.items) {
+			const itemSchema = schema.items;
+			value.forEach((item, index) => {
+				errors.push(...validateJsonSchema(itemSchema, item, `${path}[${index}]`));
+			});
+		}
+	}
+
+	if (value && typeof value === 'object' && !Array.isArray(value)) {
+		const record = value as Record<string, unknown>;
+		for (const key of schema.required || []) {
+			if (record[key] === undefined) {
+				errors.push(`${path}.${key}: is required`);
+			}
+		}
+		for (const [key, propertyValue] of Object.entries(record)) {
+			const propertySchema = schema.properties?.[key];
+			if (propertySchema) {
+				errors.push(...validateJsonSchema(propertySchema, propertyValue, `${path}.${key}`));
+			} else if (schema.additionalProperties === false) {
+				errors.push(`${path}.${key}: is not allowed`);
+			}
+		}
+	}
+
+	return errors;
+}
+
+function jsonTypeOf(value: unknown): JsonSchemaType | 'undefined' {
+	if (value === null) return 'null';
+	if (Array.isArray(value)) return 'array';
+	if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+	if (typeof value === 'string' || typeof value === 'boolean' || typeof value === 'object') {
+		return typeof value as JsonSchemaType;
+	}
+	return 'undefined';
+}
+
+// Parse a model response as JSON, tolerating a surrounding ```json fence or leading prose
+export function parseJsonResponse(text: string): unknown {
+	const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+	const candidate = (fenced ? fenced[1] : text).trim();
+	try {
+		return JSON.parse(candidate);
+	} catch (error) {
+		// Fall back to the outermost object or array in the text
+		const start = candidate.search(/[{[]/);
+		const end = Math.max(candidate.lastIndexOf('}'), candidate.lastIndexOf(']'));
+		if (start !== -1 && end > start) {
+			return JSON.parse(candidate.slice(start, end + 1));
+		}
+		throw error;
+	}
+}
+
+// Render structured output as readable markdown when a block doesn't provide its own renderer
+export function renderJsonAsMarkdown(value: unknown, depth = 0): string {
+	if (value === null || value === undefined) return '';
+	if (typeof value !== 'object') return String(value);
+
+	const indent = '  '.repeat(depth);
+	if (Array.isArray(value)) {
+		return value
+			.map(item => {
+				if (item && typeof item === 'object') {
+					const nested = renderJsonAsMarkdown(item, depth + 1).trimStart();
+					return `${indent}- ${nested}`;
+				}
+				return `${indent}- ${String(item)}`;
+			})
+			.join('\n');
+	}
+
+	return Object.entries(value as Record<string, unknown>)
+		.map(([key, item]) => {
+			const label = humanizeKey(key);
+			if (item && typeof item === 'object') {
+				return `${indent}**${label}**:\n${renderJsonAsMarkdown(item, depth + 1)}`;
+			}
+			return `${indent}**${label}**: ${String(item)}`;
+		})
+		.join('\n');
+}
+
+function humanizeKey(key: string): string {
+	const spaced = key.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/[_-]+/g, ' ');
+	return spaced.charAt(0).toUpperCase() + spaced.slice(1);
+}
@@ -0,0 +1,215 @@
+import { Notice, TFile } from 'obsidian';
+import { LivingCanvasPlugin } from '../main';
+import { CanvasData, CanvasNode, CanvasTransaction } from './CanvasManager';
+
+export interface Position {
+	x: number;
+	y: number;
+}
+
+export interface Size {
+	width: number;
+	height: number;
+}
+
+interface Rect extends Position, Size {}
+
+// Space kept between a node and its neighbours
+const NODE_SPACING = 40;
+// Horizontal distance from an anchor to the node placed next to it
+const ANCHOR_GAP = 100;
+// Distance between the columns of a tidied pipeline
+const COLUMN_GAP = 120;
+
+// Rough rendering metrics of a canvas text node, used to size nodes from their text
+const CHAR_WIDTH = 7.5;
+const LINE_HEIGHT = 24;
+const TEXT_PADDING = 40;
+
+// Places new nodes where they don't overlap existing ones, and arranges pipelines
+export class LayoutService {
+	private plugin: LivingCanvasPlugin;
+
+	constructor(plugin: LivingCanvasPlugin) {
+		this.plugin = plugin;
+	}
+
+	// A size that shows most of the text without scrolling, within the given bounds
+	sizeForText(text: string, minWidth = 250, maxWidth = 500, maxHeight = 600): Size {
+		const lines = text.split('\n');
+		const longest = Math.max(0, ...lines.map(line => line.length));
+		const width = clamp(Math.ceil(longest * CHAR_WIDTH) + TEXT_PADDING, minWidth, maxWidth);
+
+		const charsPerLine = Math.max(1, Math.floor((width - TEXT_PADDING) / CHAR_WIDTH));
+		const wrappedLines = lines.reduce((total, line) => total + Math.max(1, Math.ceil(line.length / charsPerLine)), 0);
+		const height = clamp(wrappedLines * LINE_HEIGHT + TEXT_PADDING, 60, maxHeight);
+		return { width, height };
+	}
+
+	// Free space to the right of the anchor, moving down past anything in the way
+	placeNear(data: CanvasData, anchor: CanvasNode, size: Size, ignore: string[] = []): Position {
+		const start = { x: anchor.x + anchor.width + ANCHOR_GAP, y: anchor.y };
+		return this.findFreePosition(data, start, size, anchor, ignore);
+	}
+
+	// Free space centred on a point, e.g. the middle of the visible canvas
+	placeAt(data: CanvasData, point: Position, size: Size): Position {
+		const start = { x: Math.round(point.x - size.width / 2), y: Math.round(point.y - size.height / 2) };
+		return this.findFreePosition(data, start, size);
+	}
+
+	// Where a new node goes: next to the selected node, else the middle of the view, else below everything
+	placeNewNode(data: CanvasData, size: Size, canvasFile: TFile): Position {
+		const selectedId = this.plugin.canvasManager.getSelectedNodeIds(canvasFile)[0];
+		const selected = selectedId ? data.nodes.find(node => node.id === selectedId) : undefined;
+		if (selected) {
+			return this.placeNear(data, selected, size);
+		}
+
+		const center = this.plugin.canvasManager.getViewportCenter(canvasFile);
+		if (center) {
+			return this.placeAt(data, center, size);
+		}
+
+		const bottom = Math.max(0, ...data.nodes.map(node => node.y + node.height));
+		const left = data.nodes.length > 0 ? Math.min(...data.nodes.map(node => node.x)) : 0;
+		return this.findFreePosition(data, { x: left, y: bottom + NODE_SPACING }, size);
+	}
+
+	// Resize a node to its text; if the larger node now overlaps something, move it next to the anchor again
+	fitToText(transaction: CanvasTransaction, nodeId: string, anchor?: CanvasNode): void {
+		const node = transaction.getNode(nodeId);
+		if (!node) return;
+
+		const size = this.sizeForText(node.text || '');
+		const resized = { x: node.x, y: node.y, ...size };
+		const collides = this.getObstacles(transaction.data, anchor, [node.id]).some(rect => overlaps(resized, rect));
+		const position = collides && anchor ? this.placeNear(transaction.data, anchor, size, [node.id]) : resized;
+		transaction.updateNode(nodeId, { ...size, x: position.x, y: position.y });
+	}
+
+	// Arrange blocks left to right by dependency depth, each block's output nodes stacked beneath it.
+	// With a block given, only the blocks connected to it are moved.
+	async tidyPipeline(nodeId: string | null, canvasFile: TFile): Promise<void> {
+		const moved = await this.plugin.canvasManager.transaction(transaction => {
+			const data = transaction.data;
+			const graph = this.plugin.pipelineRunner.buildGraph(data);
+			const blockIds = nodeId ? this.connectedBlocks(nodeId, graph) : new Set(graph.keys());
+			const order = this.plugin.pipelineRunner.topologicalSort(blockIds, graph);
+			if (!order) return -1;
+			if (order.length === 0) return 0;
+
+			// Depth of a block: the longest chain of blocks it depends on
+			const depth = new Map<string, number>();
+			for (const id of order) {
+				const dependencies = Array.from(graph.get(id) || []).filter(dependency => blockIds.has(dependency));
+				depth.set(id, Math.max(-1, ...dependencies.map(dependency => depth.get(dependency) ?? 0)) + 1);
+			}
+
+			const columns: string[][] = [];
+			for (const id of order) {
+				const column = depth.get(id) || 0;
+				(columns[column] = columns[column] || []).push(id);
+			}
+
+			const members = (blockId: string) => [
+				transaction.getNode(blockId),
+				...data.nodes.filter(node => node.livingCanvasOutput?.blockNodeId === blockId)
+			].filter((node): node is CanvasNode => !!node);
+
+			// Keep the pipeline where it is: start from the top-left of the nodes being moved
+			const all = order.flatMap(members);
+			let x = Math.min(...all.map(node => node.x));
+			const top = Math.min(...all.map(node => node.y));
+
+			for (const column of columns) {
+				let y = top;
+				let columnWidth = 0;
+				for (const blockId of column) {
+					for (const node of members(blockId)) {
+						transaction.updateNode(node.id, { x, y });
+						y += node.height + NODE_SPACING;
+						columnWidth = Math.max(columnWidth, node.width);
+					}
+					y += NODE_SPACING;
+				}
+				x += columnWidth + COLUMN_GAP;
+			}
+			return all.length;
+		}, canvasFile);
+
+		if (moved === -1) {
+			new Notice('Pipeline not tidied: blocks form a cycle');
+		} else if (!moved) {
+			new Notice('No Living Canvas blocks to arrange');
+		} else {
+			new Notice(`Arranged ${moved} node(s)`);
+		}
+	}
+
+	// Scan downward from the start until the rectangle is clear. Each step moves below the node in
+	// the way, so it ends after at most one step per node.
+	private findFreePosition(data: CanvasData, start: Position, size: Size, anchor?: CanvasNode, ignore: string[] = []): Position {
+		const obstacles = this.getObstacles(data, anchor, ignore);
+		const rect: Rect = { ...start, ...size };
+		for (;;) {
+			const blocker = obstacles.find(obstacle => overlaps(rect, obstacle));
+			if (!blocker) return { x: rect.x, y: rect.y };
+			rect.y = blocker.y + blocker.height + NODE_SPACING;
+		}
+	}
+
+	// Nodes to keep clear of. Groups around the anchor are not in the way: a node placed next to
+	// something inside a group belongs in that group too.
+	private getObstacles(data: CanvasData, anchor: CanvasNode | undefined, ignore: string[]): Rect[] {
+		return data.nodes.filter(node => {
+			if (ignore.includes(node.id)) return false;
+			if (node.type === 'group' && anchor && contains(node, anchor)) return false;
+			return true;
+		});
+	}
+
+	// Blocks linked to the given one in either direction
+	private connectedBlocks(nodeId: string, graph: Map<string, Set<string>>): Set<string> {
+		const neighbours = new Map<string, string[]>();
+		const link = (from: string, to: string) => neighbours.set(from, [...(neighbours.get(from) || []), to]);
+		for (const [id, dependencies] of graph) {
+			for (const dependency of dependencies) {
+				link(id, dependency);
+				link(dependency, id);
+			}
+		}
+
+		const seen = new Set<string>([nodeId]);
+		const queue = [nodeId];
+		while (queue.length > 0) {
+			const id = queue.shift() as string;
+			for (const next of neighbours.get(id) || []) {
+				if (!seen.has(next)) {
+					seen.add(next);
+					queue.push(next);
+				}
+			}
+		}
+		return seen;
+	}
+}
+
+function clamp(value: number, min: number, max: number): number {
+	return Math.min(max, Math.max(min, value));
+}
+
+// Rectangles closer than NODE_SPACING count as overlapping
+function overlaps(a: Rect, b: Rect): boolean {
+	return a.x < b.x + b.width + NODE_SPACING
+		&& b.x < a.x + a.width + NODE_SPACING
+		&& a.y < b.y + b.height + NODE_SPACING
+		&& b.y < a.y + a.height + NODE_SPACING;
+}
+
+function contains(outer: Rect, inner: Rect): boolean {
+	return inner.x >= outer.x
+		&& inner.y >= outer.y
+		&& inner.x + inner.width <= outer.x + outer.width
+		&& inner.y + inner.height <= outer.y + outer.height;
+}
@@ -0,0 +1,88 @@
+import { CanvasTransaction, OutputVersion } from './CanvasManager';
+
+export interface DiffLine {
+	type: 'same' | 'added' | 'removed';
+	text: string;
+}
+
+// Set an output node's current text aside and show a placeholder while a new run writes to it.
+// The text joins the history once the run writes its result, or comes back if the run doesn't.
+// Text left by an interrupted run (still a placeholder) isn't kept.
+export function beginOutputVersion(transaction: CanvasTransaction, outputNodeId: string, placeholder: string): boolean {
+	const node = transaction.getNode(outputNodeId);
+	if (!node?.livingCanvasOutput) return false;
+
+	const output = node.livingCanvasOutput;
+	const current = node.text || '';
+	const previous = current.trim() && !current.startsWith('⏳')
+		? { text: current, data: output.data, createdAt: output.createdAt ?? Date.now(), provenance: output.provenance }
+		: output.previous;
+	transaction.updateOutput(outputNodeId, { previous, data: undefined, provenance: undefined });
+	transaction.updateNode(outputNodeId, { text: placeholder });
+	return true;
+}
+
+// The run wrote its result: the text from before it goes into the history, within the limit,
+// and a node the run added is kept
+export function commitOutputVersion(transaction: CanvasTransaction, outputNodeId: string, limit: number): void {
+	const output = transaction.getNode(outputNodeId)?.livingCanvasOutput;
+	if (output?.provisional) {
+		transaction.updateOutput(outputNodeId, { provisional: undefined });
+	}
+	if (!output?.previous) return;
+	const history = [output.previous, ...(output.history || [])].slice(0, Math.max(0, limit));
+	transaction.updateOutput(outputNodeId, { previous: undefined, history });
+}
+
+// Put the text from before the run back, e.g. after a run that produced nothing
+export function restorePreviousVersion(transaction: CanvasTransaction, outputNodeId: string): boolean {
+	const previous = transaction.getNode(outputNodeId)?.livingCanvasOutput?.previous;
+	if (!previous) return false;
+	transaction.updateNode(outputNodeId, { text: previous.text });
+	transaction.updateOutput(outputNodeId, { data: previous.data, createdAt: previous.createdAt, provenance: previous.provenance, previous: undefined });
+	return true;
+}
+
+// Make a history entry current; the current text takes its place at the top of the history
+export function restoreVersion(transaction: CanvasTransaction, outputNodeId: string, index: number, limit: number): boolean {
+	const node = transaction.getNode(outputNodeId);
+	const output = node?.livingCanvasOutput;
+	const version = output?.history?.[index];
+	if (!node || !output?.history || !version) return false;
+
+	const current: OutputVersion = { text: node.text || '', data: output.data, createdAt: output.createdAt ?? Date.now(), provenance: output.provenance };
+	const history = [current, ...output.history.filter((_, i) => i !== index)].slice(0, Math.max(0, limit));
+	transaction.updateNode(outputNodeId, { text: version.text });
+	transaction.updateOutput(outputNodeId, { data: version.data, createdAt: version.createdAt, provenance: version.provenance, history });
+	return true;
+}
+
+// Line diff via longest common subsequence; fine for the size of a block's output
+export function diffLines(before: string, after: string): DiffLine[] {
+	const a = before.split('\n');
+	const b = after.split('\n');
+	const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+	for (let i = a.length - 1; i >= 0; i--) {
+		for (let j = b.length - 1; j >= 0; j--) {
+			lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+		}
+	}
+
+	const lines: DiffLine[] = [];
+	let i = 0;
+	let j = 0;
+	while (i < a.length && j < b.length) {
+		if (a[i] === b[j]) {
+			lines.push({ type: 'same', text: a[i] });
+			i++;
+			j++;
+		} else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+			lines.push({ type: 'removed', text: a[i++] });
+		} else {
+			lines.push({ type: 'added', text: b[j++] });
+		}
+	}
+	while (i < a.length) lines.push({ type: 'removed', text: a[i++] });
+	while (j < b.length) lines.push({ type: 'added', text: b[j++] });
+	return lines;
+}
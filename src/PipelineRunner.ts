@@ -0,0 +1,284 @@
+import { Notice, TFile } from 'obsidian';
+import { LivingCanvasPlugin } from '../main';
+import { CanvasData } from './CanvasManager';
+
+// What a pipeline does when one of its blocks fails:
+// 'stop' ends the pipeline, 'continue' still runs blocks that don't depend on the failed one
+export type PipelineErrorPolicy = 'stop' | 'continue';
+
+export type PipelineScope = 'from' | 'upTo' | 'all' | 'blocks';
+
+export interface PipelineResult {
+	completed: string[];
+	failed: string[];
+	skipped: string[];
+	cancelled: boolean;
+}
+
+// Block dependencies: for each Living Canvas block, the blocks whose output it reads
+type DependencyGraph = Map<string, Set<string>>;
+
+// Runs Living Canvas blocks in dependency order so each block sees the fresh output of the blocks before it
+export class PipelineRunner {
+	private plugin: LivingCanvasPlugin;
+	// Canvases with a pipeline in progress
+	private running = new Set<string>();
+
+	constructor(plugin: LivingCanvasPlugin) {
+		this.plugin = plugin;
+	}
+
+	// Run a block and everything downstream of it
+	async runFrom(nodeId: string): Promise<PipelineResult | null> {
+		return this.run('from', nodeId);
+	}
+
+	// Run a block after everything it depends on
+	async runUpTo(nodeId: string): Promise<PipelineResult | null> {
+		return this.run('upTo', nodeId);
+	}
+
+	// Run every block on the canvas
+	async runAll(): Promise<PipelineResult | null> {
+		return this.run('all');
+	}
+
+	// Run the given blocks in dependency order, e.g. the stale blocks of a canvas
+	async runBlocks(nodeIds: string[], canvasFile: TFile): Promise<PipelineResult | null> {
+		return this.run('blocks', undefined, canvasFile, nodeIds);
+	}
+
+	isRunning(canvasPath: string): boolean {
+		return this.running.has(canvasPath);
+	}
+
+	private async run(
+		scope: PipelineScope,
+		nodeId?: string,
+		canvasFile = this.plugin.getCurrentCanvasFile(),
+		blockIds: string[] = []
+	): Promise<PipelineResult | null> {
+		if (!canvasFile) {
+			new Notice('No canvas file is currently open');
+			return null;
+		}
+		if (this.running.has(canvasFile.path)) {
+			new Notice('A pipeline is already running on this canvas');
+			return null;
+		}
+
+		const data = await this.plugin.canvasManager.readCanvasData(canvasFile);
+		if (!data) {
+			new Notice('Could not read the canvas');
+			return null;
+		}
+
+		const graph = this.buildGraph(data);
+		if (nodeId && !graph.has(nodeId)) {
+			new Notice('Selected node is not a Living Canvas block');
+			return null;
+		}
+		const selected = scope === 'blocks'
+			? new Set(blockIds.filter(id => graph.has(id)))
+			: scope === 'all' || !nodeId
+				? new Set(graph.keys())
+				: scope === 'from'
+					? this.collect(nodeId, this.invert(graph))
+					: this.collect(nodeId, graph);
+
+		const order = this.topologicalSort(selected, graph);
+		if (!order) {
+			const cycle = this.findCycle(selected, graph) || [];
+			const names = cycle.map(id => this.getBlockName(data, id));
+			new Notice(`Pipeline not run: blocks form a cycle (${names.join(' → ')})`);
+			return null;
+		}
+		if (order.length === 0) {
+			new Notice('No Living Canvas blocks to run');
+			return null;
+		}
+
+		this.running.add(canvasFile.path);
+		try {
+			return await this.execute(order, graph, canvasFile, data);
+		} finally {
+			this.running.delete(canvasFile.path);
+		}
+	}
+
+	private async execute(order: string[], graph: DependencyGraph, canvasFile: TFile, data: CanvasData): Promise<PipelineResult> {
+		const policy = this.plugin.settings.pipelineErrorPolicy;
+		const result: PipelineResult = { completed: [], failed: [], skipped: [], cancelled: false };
+		// Blocks that failed or were skipped; their dependents can't run
+		const blocked = new Set<string>();
+
+		new Notice(`Running pipeline: ${order.length} block(s)`);
+		for (let index = 0; index < order.length; index++) {
+			const nodeId = order[index];
+			const dependencies = graph.get(nodeId) || new Set<string>();
+			if (Array.from(dependencies).some(dependency => blocked.has(dependency))) {
+				this.plugin.debug(`Pipeline: skipping ${nodeId}, an upstream block failed`);
+				result.skipped.push(nodeId);
+				blocked.add(nodeId);
+				continue;
+			}
+
+			this.plugin.debug(`Pipeline: running ${nodeId} (${index + 1} of ${order.length})`);
+			const outcome = await this.plugin.actionHandler.handleRunBlock(nodeId, { canvasFile, quiet: true });
+			if (outcome === 'complete') {
+				result.completed.push(nodeId);
+				continue;
+			}
+
+			if (outcome === 'cancelled') {
+				result.cancelled = true;
+			} else {
+				result.failed.push(nodeId);
+				blocked.add(nodeId);
+			}
+			if (outcome === 'cancelled' || policy === 'stop') {
+				result.skipped.push(...order.slice(index + 1));
+				break;
+			}
+		}
+
+		const parts = [`${result.completed.length} completed`];
+		if (result.failed.length > 0) {
+			parts.push(`${result.failed.length} failed (${result.failed.map(id => this.getBlockName(data, id)).join(', ')})`);
+		}
+		if (result.skipped.length > 0) {
+			parts.push(`${result.skipped.length} skipped`);
+		}
+		new Notice(`Pipeline ${result.cancelled ? 'cancelled' : 'finished'}: ${parts.join(', ')}`);
+		return result;
+	}
+
+	// A block depends on another when an edge comes from that block, or from one of its output nodes
+	buildGraph(data: CanvasData): DependencyGraph {
+		const blockIds = new Set(data.nodes.filter(node => node.livingCanvas).map(node => node.id));
+		const producers = new Map<string, string>();
+		for (const node of data.nodes) {
+			const blockNodeId = node.livingCanvasOutput?.blockNodeId;
+			if (blockNodeId && blockIds.has(blockNodeId)) {
+				producers.set(node.id, blockNodeId);
+			}
+		}
+
+		const graph: DependencyGraph = new Map();
+		for (const id of blockIds) {
+			graph.set(id, new Set());
+		}
+		for (const edge of data.edges) {
+			const dependents = graph.get(edge.toNode);
+			if (!dependents) continue;
+			const upstream = blockIds.has(edge.fromNode) ? edge.fromNode : producers.get(edge.fromNode);
+			if (upstream && upstream !== edge.toNode) {
+				dependents.add(upstream);
+			}
+		}
+		return graph;
+	}
+
+	// Kahn's algorithm over the selected blocks; null when they contain a cycle
+	topologicalSort(selected: Set<string>, graph: DependencyGraph): string[] | null {
+		const remaining = new Map<string, number>();
+		const dependents = this.invert(graph);
+		for (const id of selected) {
+			const dependencies = Array.from(graph.get(id) || []).filter(dependency => selected.has(dependency));
+			remaining.set(id, dependencies.length);
+		}
+
+		const ready = Array.from(selected).filter(id => remaining.get(id) === 0);
+		const order: string[] = [];
+		while (ready.length > 0) {
+			const id = ready.shift() as string;
+			order.push(id);
+			for (const dependent of dependents.get(id) || []) {
+				if (!remaining.has(dependent)) continue;
+				const count = (remaining.get(dependent) || 0) - 1;
+				remaining.set(dependent, count);
+				if (count === 0) {
+					ready.push(dependent);
+				}
+			}
+		}
+		return order.length === selected.size ? order : null;
+	}
+
+	// Depth-first search for one cycle among the selected blocks, for the error message
+	private findCycle(selected: Set<string>, graph: DependencyGraph): string[] | null {
+		const visiting: string[] = [];
+		const done = new Set<string>();
+
+		const visit = (id: string): string[] | null => {
+			const position = visiting.indexOf(id);
+			if (position !== -1) {
+				return [...visiting.slice(position), id];
+			}
+			if (done.has(id)) return null;
+			visiting.push(id);
+			for (const dependency of graph.get(id) || []) {
+				if (!selected.has(dependency)) continue;
+				const cycle = visit(dependency);
+				if (cycle) return cycle;
+			}
+			visiting.pop();
+			done.add(id);
+			return null;
+		};
+
+		for (const id of selected) {
+			const cycle = visit(id);
+			if (cycle) return cycle.reverse();
+		}
+		return null;
+	}
+
+	// The given blocks plus every block that depends on them, directly or further down
+	getDownstream(nodeIds: Iterable<string>, graph: DependencyGraph): Set<string> {
+		const dependents = this.invert(graph);
+		const downstream = new Set<string>();
+		for (const id of nodeIds) {
+			for (const reached of this.collect(id, dependents)) {
+				downstream.add(reached);
+			}
+		}
+		return downstream;
+	}
+
+	// A node plus everything reachable from it through the graph's links
+	private collect(start: string, links: DependencyGraph): Set<string> {
+		const seen = new Set<string>([start]);
+		const queue = [start];
+		while (queue.length > 0) {
+			const id = queue.shift() as string;
+			for (const next of links.get(id) || []) {
+				if (!seen.has(next)) {
+					seen.add(next);
+					queue.push(next);
+				}
+			}
+		}
+		return seen;
+	}
+
+	// Map each block to the blocks that depend on it
+	private invert(graph: DependencyGraph): DependencyGraph {
+		const inverted: DependencyGraph = new Map();
+		for (const id of graph.keys()) {
+			inverted.set(id, new Set());
+		}
+		for (const [id, dependencies] of graph) {
+			for (const dependency of dependencies) {
+				inverted.get(dependency)?.add(id);
+			}
+		}
+		return inverted;
+	}
+
+	private getBlockName(data: CanvasData, nodeId: string): string {
+		const blockType = data.nodes.find(node => node.id === nodeId)?.livingCanvas?.blockType;
+		if (!blockType) return nodeId;
+		return this.plugin.blockManager.getBlock(blockType)?.name || blockType;
+	}
+}
@@ -0,0 +1,119 @@
+import { GenerationParams } from './providers/AIProvider';
+
+// Model calls made by one run, including chunk, repair and reduce calls
+export interface RunUsage {
+	calls: number;
+	// Calls answered from the response cache, which cost nothing
+	cachedCalls: number;
+	inputTokens: number;
+	outputTokens: number;
+}
+
+// A node that fed a run, as it was labelled in the input
+export interface SourceRef {
+	nodeId: string;
+	label: string;
+	// Named input it arrived through
+	port?: string;
+}
+
+// How a generated node was produced, so its content can be audited and reproduced later
+export interface Provenance {
+	blockNodeId: string;
+	blockType: string;
+	blockName?: string;
+	blockVersion?: string;
+	// The block's configuration at the time, as used for the run
+	config: Record<string, unknown>;
+	// Provider and model that answered, e.g. 'openai:gpt-4'
+	model?: string;
+	params?: GenerationParams;
+	// Hash of the block's assembled input and configuration; matches the block's inputHash while it's current
+	inputHash: string;
+	// Hash of the request built by the block's executor
+	promptHash?: string;
+	sources: SourceRef[];
+	// For batch runs, the group member this result is for
+	batchMemberId?: string;
+	canvasPath: string;
+	startedAt: number;
+	completedAt: number;
+	usage?: RunUsage;
+	// Every call came from the response cache
+	cached: boolean;
+	pluginVersion: string;
+}
+
+export function emptyUsage(): RunUsage {
+	return { calls: 0, cachedCalls: 0, inputTokens: 0, outputTokens: 0 };
+}
+
+export function addUsage(total: RunUsage, usage: RunUsage | undefined): RunUsage {
+	if (!usage) return total;
+	return {
+		calls: total.calls + usage.calls,
+		cachedCalls: total.cachedCalls + usage.cachedCalls,
+		inputTokens: total.inputTokens + usage.inputTokens,
+		outputTokens: total.outputTokens + usage.outputTokens
+	};
+}
+
+// Label and value pairs for showing a record, in reading order
+export function describeProvenance(provenance: Provenance): [string, string][] {
+	const block = provenance.blockName ? `${provenance.blockName} (${provenance.blockType})` : provenance.blockType;
+	const rows: [string, string][] = [
+		['Block', provenance.blockVersion ? `${block} v${provenance.blockVersion}` : block],
+		['Model', provenance.model || 'Unknown'],
+		['Parameters', formatParams(provenance.params)],
+		['Inputs', provenance.sources.map(source => source.port ? `${source.port}: ${source.label}` : source.label).join('\n') || 'None'],
+		['Generated', `${new Date(provenance.completedAt).toLocaleString()} (took ${formatDuration(provenance.completedAt - provenance.startedAt)})`],
+		['Tokens', provenance.usage
+			? `${provenance.usage.inputTokens} in, ${provenance.usage.outputTokens} out over ${provenance.usage.calls} call(s)`
+			: 'Not recorded'],
+		['Cached', provenance.cached ? 'Yes, from the response cache' : 'No'],
+		['Input hash', provenance.inputHash],
+		['Prompt hash', provenance.promptHash || 'Not recorded'],
+		['Canvas', provenance.canvasPath],
+		['Plugin version', provenance.pluginVersion]
+	];
+	const config = Object.entries(provenance.config || {});
+	if (config.length > 0) {
+		rows.push(['Configuration', config.map(([key, value]) => `${key}: ${JSON.stringify(value)}`).join('\n')]);
+	}
+	return rows;
+}
+
+// Frontmatter properties for a note exported from a generated node. Flat keys, so they show up
+// as regular properties in Obsidian and can be searched.
+export function provenanceFrontmatter(provenance: Provenance): Record<string, unknown> {
+	const properties: Record<string, unknown> = {
+		'ai-generated': true,
+		'generated-by': 'Living Canvas',
+		'block': provenance.blockName || provenance.blockType,
+		'block-type': provenance.blockType,
+		'block-version': provenance.blockVersion,
+		'model': provenance.model,
+		'temperature': provenance.params?.temperature,
+		'max-tokens': provenance.params?.maxTokens,
+		'inputs': provenance.sources.map(source => source.port ? `${source.port}: ${source.label}` : source.label),
+		'source-canvas': `[[${provenance.canvasPath}]]`,
+		'source-block': provenance.blockNodeId,
+		'generated-at': new Date(provenance.completedAt).toISOString(),
+		'input-tokens': provenance.usage?.inputTokens,
+		'output-tokens': provenance.usage?.outputTokens,
+		'cached': provenance.cached,
+		'input-hash': provenance.inputHash,
+		'prompt-hash': provenance.promptHash,
+		'plugin-version': provenance.pluginVersion
+	};
+	return Object.fromEntries(Object.entries(properties).filter(([, value]) => value !== undefined));
+}
+
+function formatParams(params: GenerationParams | undefined): string {
+	const entries = Object.entries(params || {}).filter(([, value]) => value !== undefined);
+	return entries.length > 0 ? entries.map(([key, value]) => `${key}: ${JSON.stringify(value)}`).join(', ') : 'Defaults';
+}
+
+function formatDuration(ms: number): string {
+	return ms < 1000 ? `${Math.max(0, ms)}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
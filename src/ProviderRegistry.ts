@@ -0,0 +1,171 @@
+import { LivingCanvasPlugin } from '../main';
+import { AIProvider, AuthScheme, ProviderConfig } from './providers/AIProvider';
+import { AnthropicProvider } from './providers/AnthropicProvider';
+import { MOCK_MODES, MockProvider } from './providers/MockProvider';
+import { OpenAIProvider } from './providers/OpenAIProvider';
+
+// Describes a kind of provider the user can add in settings
+export interface ProviderType {
+	type: string;
+	label: string;
+	defaultBaseUrl: string;
+	defaultAuthScheme: AuthScheme;
+	defaultModels: string[];
+	create: (config: ProviderConfig, plugin: LivingCanvasPlugin) => AIProvider;
+}
+
+export interface ModelOption {
+	ref: string;
+	label: string;
+}
+
+export class ProviderRegistry {
+	private plugin: LivingCanvasPlugin;
+	private types: Map<string, ProviderType> = new Map();
+	// Providers that exist only while in use, like the mock block tests run against; never saved or listed
+	private transient: Map<string, AIProvider> = new Map();
+
+	constructor(plugin: LivingCanvasPlugin) {
+		this.plugin = plugin;
+		this.registerBuiltInTypes();
+	}
+
+	registerType(providerType: ProviderType): void {
+		this.types.set(providerType.type, providerType);
+	}
+
+	getType(type: string): ProviderType | undefined {
+		return this.types.get(type);
+	}
+
+	getTypes(): ProviderType[] {
+		return Array.from(this.types.values());
+	}
+
+	// Make a provider resolvable by its id until the returned function is called
+	addTransient(provider: AIProvider): () => void {
+		this.transient.set(provider.config.id, provider);
+		return () => this.transient.delete(provider.config.id);
+	}
+
+	// Build a provider instance from the configured settings
+	getProvider(providerId: string): AIProvider | undefined {
+		const config = this.plugin.settings.providers.find(p => p.id === providerId);
+		if (!config) return undefined;
+
+		const providerType = this.types.get(config.type);
+		if (!providerType) {
+			this.plugin.debug(`Unknown provider type '${config.type}' for provider ${config.id}`);
+			return undefined;
+		}
+		return providerType.create(config, this.plugin);
+	}
+
+	// Create a new provider config of the given type with its defaults filled in
+	createConfig(type: string): ProviderConfig {
+		const providerType = this.types.get(type);
+		if (!providerType) {
+			throw new Error(`Unknown provider type '${type}'`);
+		}
+		return {
+			id: `${type}-${Date.now().toString(36)}`,
+			name: providerType.label,
+			type,
+			baseUrl: providerType.defaultBaseUrl,
+			apiKey: '',
+			authScheme: providerType.defaultAuthScheme,
+			models: [...providerType.defaultModels]
+		};
+	}
+
+	// Resolve a model reference to a provider and the model name it expects.
+	// References are either "<providerId>:<model>" or a bare model name.
+	resolve(modelRef: string): { provider: AIProvider; model: string } {
+		const providers = this.plugin.settings.providers;
+
+		const separator = modelRef.indexOf(':');
+		if (separator > 0) {
+			const providerId = modelRef.slice(0, separator);
+			const transient = this.transient.get(providerId);
+			if (transient) {
+				return { provider: transient, model: modelRef.slice(separator + 1) };
+			}
+			if (providers.some(p => p.id === providerId)) {
+				const provider = this.getProvider(providerId);
+				if (!provider) {
+					throw new Error(`Provider '${providerId}' could not be loaded`);
+				}
+				return { provider, model: modelRef.slice(separator + 1) };
+			}
+		}
+
+		// Bare model name: prefer a provider that lists it, then fall back to name conventions
+		const listed = providers.find(p => p.models.includes(modelRef));
+		const byConvention = modelRef.startsWith('claude-')
+			? providers.find(p => p.type === 'anthropic')
+			: (modelRef.startsWith('gpt-') || modelRef.startsWith('text-'))
+				? providers.find(p => p.type === 'openai')
+				: undefined;
+		const config = listed || byConvention || providers[0];
+		if (!config) {
+			throw new Error('No AI providers configured. Please add one in the plugin settings.');
+		}
+
+		const provider = this.getProvider(config.id);
+		if (!provider) {
+			throw new Error(`Provider '${config.id}' could not be loaded`);
+		}
+		return { provider, model: modelRef };
+	}
+
+	// All models across configured providers, as references usable in settings and block config
+	listModels(): ModelOption[] {
+		const options: ModelOption[] = [];
+		for (const config of this.plugin.settings.providers) {
+			for (const model of config.models) {
+				options.push({ ref: `${config.id}:${model}`, label: `${config.name} – ${model}` });
+			}
+		}
+		return options;
+	}
+
+	private registerBuiltInTypes(): void {
+		this.registerType({
+			type: 'openai',
+			label: 'OpenAI',
+			defaultBaseUrl: 'https://api.openai.com/v1',
+			defaultAuthScheme: 'bearer',
+			defaultModels: ['gpt-3.5-turbo', 'gpt-4'],
+			create: (config, plugin) => new OpenAIProvider(config, plugin)
+		});
+
+		this.registerType({
+			type: 'anthropic',
+			label: 'Anthropic',
+			defaultBaseUrl: 'https://api.anthropic.com/v1',
+			defaultAuthScheme: 'x-api-key',
+			defaultModels: ['claude-3-sonnet', 'claude-3-haiku'],
+			create: (config, plugin) => new AnthropicProvider(config, plugin)
+		});
+
+		// Gateways and local servers (Ollama, llama.cpp, LM Studio) that speak the OpenAI API
+		this.registerType({
+			type: 'openai-compatible',
+			label: 'OpenAI-compatible',
+			defaultBaseUrl: 'http://localhost:11434/v1',
+			defaultAuthScheme: 'none',
+			defaultModels: [],
+			create: (config, plugin) => new OpenAIProvider(config, plugin)
+		});
+
+		// Offline answers for developing blocks and testing canvases; see MockProvider
+		this.registerType({
+			type: 'mock',
+			label: 'Mock (offline)',
+			defaultBaseUrl: '',
+			defaultAuthScheme: 'none',
+			defaultModels: [...MOCK_MODES],
+			create: (config, plugin) => new MockProvider(config, plugin)
+		});
+	}
+}
@@ -0,0 +1,164 @@
+import { LivingCanvasPlugin } from '../main';
+
+interface CacheIndexEntry {
+	model: string;
+	size: number;
+	createdAt: number;
+	lastAccessed: number;
+}
+
+export interface CacheStats {
+	entries: number;
+	bytes: number;
+}
+
+// Persistent, content-addressed store of model responses in the plugin's data folder.
+// Each response lives in its own file; a small index tracks sizes and ages for eviction.
+export class ResponseCache {
+	private plugin: LivingCanvasPlugin;
+	private index: Record<string, CacheIndexEntry> = {};
+	private loaded = false;
+
+	constructor(plugin: LivingCanvasPlugin) {
+		this.plugin = plugin;
+	}
+
+	private get directory(): string {
+		return `${this.plugin.getDataDirectory()}/cache`;
+	}
+
+	private get indexPath(): string {
+		return `${this.directory}/index.json`;
+	}
+
+	async initialize(): Promise<void> {
+		this.plugin.debug('Initializing ResponseCache');
+		await this.loadIndex();
+	}
+
+	async get(key: string): Promise<string | null> {
+		await this.loadIndex();
+		const entry = this.index[key];
+		if (!entry) return null;
+
+		if (this.isExpired(entry)) {
+			await this.remove(key);
+			await this.saveIndex();
+			return null;
+		}
+
+		try {
+			const content = await this.plugin.host.storage.read(this.entryPath(key));
+			const stored = JSON.parse(content) as { text: string };
+			entry.lastAccessed = Date.now();
+			await this.saveIndex();
+			return stored.text;
+		} catch (error) {
+			// The entry file is gone or unreadable; forget it
+			this.plugin.debug(`Dropping unreadable cache entry ${key}:`, error);
+			delete this.index[key];
+			await this.saveIndex();
+			return null;
+		}
+	}
+
+	async set(key: string, text: string, model: string): Promise<void> {
+		await this.loadIndex();
+		try {
+			await this.ensureDirectory();
+			const content = JSON.stringify({ model, text });
+			await this.plugin.host.storage.write(this.entryPath(key), content);
+
+			const now = Date.now();
+			this.index[key] = { model, size: content.length, createdAt: now, lastAccessed: now };
+			await this.evict();
+			await this.saveIndex();
+		} catch (error) {
+			console.error('Error writing response cache entry:', error);
+		}
+	}
+
+	async clear(): Promise<void> {
+		await this.loadIndex();
+		for (const key of Object.keys(this.index)) {
+			await this.remove(key);
+		}
+		this.index = {};
+		await this.saveIndex();
+	}
+
+	getStats(): CacheStats {
+		const entries = Object.values(this.index);
+		return {
+			entries: entries.length,
+			bytes: entries.reduce((total, entry) => total + entry.size, 0)
+		};
+	}
+
+	private isExpired(entry: CacheIndexEntry): boolean {
+		const ttlDays = this.plugin.settings.cacheTtlDays;
+		return ttlDays > 0 && Date.now() - entry.createdAt > ttlDays * 24 * 60 * 60 * 1000;
+	}
+
+	// Drop expired entries, then the least recently used until under the size limit
+	private async evict(): Promise<void> {
+		for (const [key, entry] of Object.entries(this.index)) {
+			if (this.isExpired(entry)) {
+				await this.remove(key);
+			}
+		}
+
+		const maxBytes = this.plugin.settings.cacheMaxSizeMB * 1024 * 1024;
+		const byAge = Object.entries(this.index).sort((a, b) => a[1].lastAccessed - b[1].lastAccessed);
+		let total = this.getStats().bytes;
+		for (const [key, entry] of byAge) {
+			if (total <= maxBytes) break;
+			await this.remove(key);
+			total -= entry.size;
+		}
+	}
+
+	private async remove(key: string): Promise<void> {
+		delete this.index[key];
+		try {
+			const path = this.entryPath(key);
+			if (await this.plugin.host.storage.exists(path)) {
+				await this.plugin.host.storage.remove(path);
+			}
+		} catch (error) {
+			this.plugin.debug(`Error removing cache entry ${key}:`, error);
+		}
+	}
+
+	private entryPath(key: string): string {
+		return `${this.directory}/${key}.json`;
+	}
+
+	private async ensureDirectory(): Promise<void> {
+		if (!(await this.plugin.host.storage.exists(this.directory))) {
+			await this.plugin.host.storage.mkdir(this.directory);
+		}
+	}
+
+	private async loadIndex(): Promise<void> {
+		if (this.loaded) return;
+		this.loaded = true;
+		try {
+			if (await this.plugin.host.storage.exists(this.indexPath)) {
+				this.index = JSON.parse(await this.plugin.host.storage.read(this.indexPath));
+			}
+		} catch (error) {
+			console.error('Error reading response cache index:', error);
+			this.index = {};
+		}
+	}
+
+	private async saveIndex(): Promise<void> {
+		try {
+			await this.ensureDirectory();
+			await this.plugin.host.storage.write(this.indexPath, JSON.stringify(this.index));
+		} catch (error) {
+			console.error('Error writing response cache index:', error);
+		}
+	}
+}
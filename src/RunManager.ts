@@ -0,0 +1,162 @@
+import { Menu, TFile } from 'obsidian';
+import { LivingCanvasPlugin } from '../main';
+import { restorePreviousVersion } from './OutputHistory';
+
+export interface ActiveRun {
+	id: string;
+	nodeId: string;
+	canvasPath: string;
+	label: string;
+	startedAt: number;
+	controller: AbortController;
+}
+
+// Tracks in-flight block runs so they can be listed and cancelled
+export class RunManager {
+	private plugin: LivingCanvasPlugin;
+	private runs: Map<string, ActiveRun> = new Map();
+	private statusBarEl: HTMLElement | null = null;
+	private nextId = 1;
+
+	constructor(plugin: LivingCanvasPlugin) {
+		this.plugin = plugin;
+	}
+
+	async initialize(): Promise<void> {
+		this.plugin.debug('Initializing RunManager');
+
+		this.statusBarEl = this.plugin.addStatusBarItem();
+		this.statusBarEl.addClass('mod-clickable');
+		this.plugin.registerDomEvent(this.statusBarEl, 'click', (evt: MouseEvent) => this.showRunsMenu(evt));
+		this.updateStatusBar();
+
+		// Runs from a previous session can't still be in flight; fix their status once the vault is indexed
+		this.plugin.app.workspace.onLayoutReady(() => {
+			this.recoverInterruptedRuns().catch(error => this.plugin.debug('Error recovering interrupted runs:', error));
+		});
+	}
+
+	cleanup(): void {
+		this.cancelAll();
+	}
+
+	start(nodeId: string, canvasPath: string, label: string): ActiveRun {
+		const run: ActiveRun = {
+			id: `run_${this.nextId++}`,
+			nodeId,
+			canvasPath,
+			label,
+			startedAt: Date.now(),
+			controller: new AbortController()
+		};
+		this.runs.set(run.id, run);
+		this.updateStatusBar();
+		return run;
+	}
+
+	finish(runId: string): void {
+		this.runs.delete(runId);
+		this.updateStatusBar();
+	}
+
+	cancel(runId: string): boolean {
+		const run = this.runs.get(runId);
+		if (!run) return false;
+		this.plugin.debug(`Cancelling run ${runId} (${run.label})`);
+		run.controller.abort();
+		return true;
+	}
+
+	// Cancel whatever is running for a node; returns false if nothing was
+	cancelNode(nodeId: string, canvasPath?: string): boolean {
+		let cancelled = false;
+		for (const run of this.runs.values()) {
+			if (run.nodeId === nodeId && (!canvasPath || run.canvasPath === canvasPath)) {
+				cancelled = this.cancel(run.id) || cancelled;
+			}
+		}
+		return cancelled;
+	}
+
+	cancelAll(): void {
+		for (const run of this.runs.values()) {
+			run.controller.abort();
+		}
+	}
+
+	isRunning(nodeId: string, canvasPath?: string): boolean {
+		return this.getActiveRuns().some(run => run.nodeId === nodeId && (!canvasPath || run.canvasPath === canvasPath));
+	}
+
+	getActiveRuns(): ActiveRun[] {
+		return Array.from(this.runs.values());
+	}
+
+	private updateStatusBar(): void {
+		if (!this.statusBarEl) return;
+		const count = this.runs.size;
+		this.statusBarEl.style.display = count > 0 ? '' : 'none';
+		this.statusBarEl.setText(`⏳ ${count} Living Canvas ${count === 1 ? 'run' : 'runs'}`);
+		this.statusBarEl.setAttribute('aria-label', 'Click to cancel running blocks');
+	}
+
+	private showRunsMenu(evt: MouseEvent): void {
+		const runs = this.getActiveRuns();
+		if (runs.length === 0) return;
+
+		const menu = new Menu();
+		for (const run of runs) {
+			const seconds = Math.round((Date.now() - run.startedAt) / 1000);
+			menu.addItem(item => item
+				.setTitle(`Cancel ${run.label} (${seconds}s)`)
+				.setIcon('square')
+				.onClick(() => this.cancel(run.id)));
+		}
+		if (runs.length > 1) {
+			menu.addSeparator();
+			menu.addItem(item => item
+				.setTitle('Cancel all runs')
+				.setIcon('x-circle')
+				.onClick(() => this.cancelAll()));
+		}
+		menu.showAtMouseEvent(evt);
+	}
+
+	// Reset blocks left in 'processing' by a reload: runs that had started become errors,
+	// anything else goes back to idle. Output nodes still showing a placeholder get their
+	// previous text back, or are removed if the interrupted run added them.
+	async recoverInterruptedRuns(): Promise<void> {
+		const canvasFiles = this.plugin.app.vault.getFiles().filter((file: TFile) => file.extension === 'canvas');
+
+		for (const canvasFile of canvasFiles) {
+			const nodes = await this.plugin.canvasManager.getLivingCanvasNodes(canvasFile);
+			if (!nodes.some(node => node.livingCanvas?.status === 'processing')) continue;
+
+			// Check the status again inside the transaction in case a run started meanwhile
+			await this.plugin.canvasManager.transaction(transaction => {
+				for (const node of transaction.data.nodes) {
+					if (!node.livingCanvas || node.livingCanvas.status !== 'processing') continue;
+					if (this.isRunning(node.id, canvasFile.path)) continue;
+
+					const interrupted = node.livingCanvas.startedAt !== undefined;
+					this.plugin.debug(`Recovering interrupted run for node ${node.id} in ${canvasFile.path}`);
+					transaction.updateLivingCanvas(node.id, {
+						status: interrupted ? 'error' : 'idle',
+						error: interrupted ? 'Run was interrupted before it finished (Obsidian was closed or reloaded)' : undefined,
+						statusMessage: undefined,
+						startedAt: undefined
+					});
+
+					for (const output of transaction.data.nodes) {
+						if (output.livingCanvasOutput?.blockNodeId !== node.id || !(output.text || '').startsWith('⏳')) continue;
+						if (output.livingCanvasOutput.provisional) {
+							transaction.removeNode(output.id);
+						} else {
+							restorePreviousVersion(transaction, output.id);
+						}
+					}
+				}
+			}, canvasFile);
+		}
+	}
+}
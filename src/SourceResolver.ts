@@ -0,0 +1,313 @@
+import { getFrontMatterInfo, htmlToMarkdown, normalizePath, requestUrl, TFile } from 'obsidian';
+import { LivingCanvasPlugin } from '../main';
+import { CanvasData, CanvasNode } from './CanvasManager';
+import { sha256 } from './hash';
+import { isPrivatePath } from './host/Host';
+import { SourceRef } from './Provenance';
+
+// One piece of a block's input and where it came from
+export interface SourceInput {
+	nodeId: string;
+	label: string;
+	text: string;
+	// Label of the edge it arrived through, naming the block input it feeds
+	port?: string;
+	// The group connected to the block that this source was found in
+	groupId?: string;
+}
+
+// What a block receives: all sources combined, and the text of each named input
+export interface BlockInputs {
+	text: string;
+	named: Record<string, string>;
+	// The sources in the order they appear in the text
+	sources: SourceRef[];
+}
+
+// One run of a block in batch mode: a member of the connected group, plus the block's other inputs
+export interface BatchItem {
+	memberId: string;
+	label: string;
+	inputs: BlockInputs;
+}
+
+export interface BatchInputs {
+	groupId: string;
+	items: BatchItem[];
+}
+
+export interface ResolveOptions {
+	// Use stored copies of web pages, even expired ones, instead of fetching them
+	cachedOnly?: boolean;
+}
+
+interface CachedLink {
+	url: string;
+	fetchedAt: number;
+	text: string;
+}
+
+// Files read as plain text; anything else (images, PDFs) is skipped
+const TEXT_EXTENSIONS = new Set(['md', 'txt', 'csv', 'json', 'html', 'xml', 'yaml', 'yml', 'tex']);
+
+// Turns the nodes connected to a block into its input text: text nodes, block outputs,
+// embedded notes, fetched web pages and the contents of groups
+export class SourceResolver {
+	private plugin: LivingCanvasPlugin;
+
+	constructor(plugin: LivingCanvasPlugin) {
+		this.plugin = plugin;
+	}
+
+	private get linkDirectory(): string {
+		return `${this.plugin.getDataDirectory()}/links`;
+	}
+
+	// Input text for a block, each source headed by a label when there's more than one
+	async getInputText(nodeId: string, canvasFile?: TFile): Promise<string> {
+		return (await this.getInputs(nodeId, canvasFile)).text;
+	}
+
+	// Combined input plus named inputs from labelled edges. Named inputs come first, in the order
+	// the block declares them, then unlabelled sources in edge order.
+	async getInputs(nodeId: string, canvasFile?: TFile, declared: string[] = [], options: ResolveOptions = {}): Promise<BlockInputs> {
+		return this.combine(await this.getSources(nodeId, canvasFile, declared, options), declared);
+	}
+
+	// Inputs for running a block once per member of the first group connected to it. Every run
+	// also gets the block's other sources, e.g. a shared rubric. Null when no group is connected.
+	async getBatchInputs(nodeId: string, canvasFile?: TFile, declared: string[] = []): Promise<BatchInputs | null> {
+		const data = await this.plugin.canvasManager.readCanvasData(canvasFile);
+		const sources = await this.getSources(nodeId, canvasFile, declared);
+		const groupId = sources.find(source => source.groupId)?.groupId;
+		const group = groupId ? data?.nodes.find(node => node.id === groupId) : undefined;
+		if (!groupId || !group) return null;
+
+		// Members are labelled without the group name, so a plain text member is passed as-is
+		const prefix = `${group.label || 'Group'} / `;
+		const shared = sources.filter(source => source.groupId !== groupId);
+		// Results of an earlier batch run that were moved into the group aren't members
+		const ownOutputs = new Set(data?.nodes.filter(node => node.livingCanvasOutput?.blockNodeId === nodeId).map(node => node.id));
+		const members = new Map<string, SourceInput[]>();
+		for (const source of sources) {
+			if (source.groupId !== groupId || ownOutputs.has(source.nodeId)) continue;
+			const label = source.label.startsWith(prefix) ? source.label.slice(prefix.length) : source.label;
+			members.set(source.nodeId, [...(members.get(source.nodeId) || []), { ...source, label }]);
+		}
+
+		const items = Array.from(members, ([memberId, memberSources]) => ({
+			memberId,
+			label: memberSources[0].label,
+			inputs: this.combine([...memberSources, ...shared], declared)
+		}));
+		return { groupId, items };
+	}
+
+	private combine(sources: SourceInput[], declared: string[]): BlockInputs {
+		const rank = (source: SourceInput) => {
+			if (!source.port) return declared.length + 1;
+			const index = declared.indexOf(source.port);
+			return index === -1 ? declared.length : index;
+		};
+		const ordered = sources
+			.map((source, index) => ({ source, index }))
+			.sort((a, b) => rank(a.source) - rank(b.source) || a.index - b.index)
+			.map(entry => entry.source);
+
+		// A single plain text node is passed through as-is
+		const labelled = ordered.length > 1 || (ordered.length === 1 && (ordered[0].label !== 'Text' || !!ordered[0].port));
+		const text = ordered
+			.map(source => {
+				if (!labelled) return source.text;
+				const heading = source.port ? `${source.port} (${source.label})` : source.label;
+				return `## Source: ${heading}\n\n${source.text}`;
+			})
+			.join('\n\n');
+
+		const named: Record<string, string> = {};
+		for (const source of ordered) {
+			if (!source.port) continue;
+			named[source.port] = named[source.port] ? `${named[source.port]}\n\n${source.text}` : source.text;
+		}
+		const refs = ordered.map(({ nodeId, label, port }) => ({ nodeId, label, port }));
+		return { text, named, sources: refs };
+	}
+
+	// Sources in edge order. Edge labels matching a declared input name (ignoring case) use the declared spelling.
+	async getSources(nodeId: string, canvasFile?: TFile, declared: string[] = [], options: ResolveOptions = {}): Promise<SourceInput[]> {
+		const data = await this.plugin.canvasManager.readCanvasData(canvasFile);
+		if (!data) return [];
+
+		const sources: SourceInput[] = [];
+		const edgesSeen = new Set<string>();
+		for (const edge of data.edges) {
+			if (edge.toNode !== nodeId) continue;
+			const port = this.normalizePort(edge.label, declared);
+			const key = `${edge.fromNode}\u0000${port || ''}`;
+			if (edgesSeen.has(key)) continue;
+			edgesSeen.add(key);
+
+			const node = data.nodes.find(n => n.id === edge.fromNode);
+			if (!node) continue;
+			const resolved = await this.resolveNode(node, data, new Set<string>([nodeId]), options);
+			const groupId = node.type === 'group' ? node.id : undefined;
+			sources.push(...resolved.map(source => ({ ...source, port, groupId })));
+		}
+		return sources.filter(source => source.text.trim().length > 0);
+	}
+
+	// Names of the labelled edges coming into a block
+	async getConnectedPorts(nodeId: string, canvasFile?: TFile, declared: string[] = []): Promise<string[]> {
+		const data = await this.plugin.canvasManager.readCanvasData(canvasFile);
+		if (!data) return [];
+		const ports = data.edges
+			.filter(edge => edge.toNode === nodeId)
+			.map(edge => this.normalizePort(edge.label, declared))
+			.filter((port): port is string => !!port);
+		return Array.from(new Set(ports));
+	}
+
+	private normalizePort(label: string | undefined, declared: string[]): string | undefined {
+		const port = label?.trim();
+		if (!port) return undefined;
+		return declared.find(name => name.toLowerCase() === port.toLowerCase()) || port;
+	}
+
+	private async resolveNode(node: CanvasNode, data: CanvasData, seen: Set<string>, options: ResolveOptions, inGroup?: string): Promise<SourceInput[]> {
+		if (seen.has(node.id)) return [];
+		seen.add(node.id);
+
+		const prefix = inGroup ? `${inGroup} / ` : '';
+		try {
+			switch (node.type) {
+				case 'file':
+					return await this.resolveFile(node, prefix);
+				case 'link':
+					return await this.resolveLink(node, prefix, options);
+				case 'group':
+					return await this.resolveGroup(node, data, seen, prefix, options);
+				default:
+					return this.resolveText(node, data, prefix);
+			}
+		} catch (error) {
+			this.plugin.debug(`Could not read source node ${node.id}:`, error);
+			return [];
+		}
+	}
+
+	// A block connected directly contributes the text of its latest output. Output nodes contribute
+	// their own text: re-runs update them in place, and a forked run leaves the older node as it was.
+	private resolveText(node: CanvasNode, data: CanvasData, prefix: string): SourceInput[] {
+		const blockNodeId = node.livingCanvas ? node.id : node.livingCanvasOutput?.blockNodeId;
+		if (!blockNodeId) {
+			return [{ nodeId: node.id, label: `${prefix}Text`, text: node.text || '' }];
+		}
+
+		const block = data.nodes.find(n => n.id === blockNodeId);
+		const blockName = block?.livingCanvas
+			? this.plugin.blockManager.getBlock(block.livingCanvas.blockType)?.name || block.livingCanvas.blockType
+			: 'Block';
+		if (!node.livingCanvas) {
+			return [{ nodeId: node.id, label: `${prefix}${blockName} output`, text: node.text || '' }];
+		}
+
+		// A block that hasn't produced output yet contributes nothing
+		const latestOutputId = node.livingCanvas.outputNodeId;
+		const latestOutput = latestOutputId ? data.nodes.find(n => n.id === latestOutputId) : undefined;
+		return latestOutput ? [{ nodeId: node.id, label: `${prefix}${blockName} output`, text: latestOutput.text || '' }] : [];
+	}
+
+	// A note, or the heading/block section named by the node's subpath
+	private async resolveFile(node: CanvasNode, prefix: string): Promise<SourceInput[]> {
+		if (!node.file) return [];
+		// Settings and hidden files, e.g. a plugin's data.json with API keys, are never sent to a model
+		if (isPrivatePath(normalizePath(node.file), this.plugin.host.configDir)) {
+			this.plugin.debug(`Skipping file source ${node.file}: hidden or in the config folder`);
+			return [];
+		}
+		const storage = this.plugin.host.storage;
+		const extension = node.file.includes('.') ? node.file.split('.').pop()?.toLowerCase() || '' : '';
+		if (!TEXT_EXTENSIONS.has(extension) || !(await storage.exists(node.file))) {
+			this.plugin.debug(`Skipping file source ${node.file}: not a readable text file`);
+			return [];
+		}
+
+		let content = await storage.read(node.file);
+		let label = node.file;
+
+		const section = node.subpath ? this.plugin.host.findSection(node.file, content, node.subpath) : null;
+		if (section) {
+			content = content.slice(section.start, section.end);
+			label += node.subpath;
+		} else if (extension === 'md' && this.plugin.settings.stripFrontmatter) {
+			const frontmatter = getFrontMatterInfo(content);
+			if (frontmatter.exists) {
+				content = content.slice(frontmatter.contentStart);
+			}
+		}
+
+		return [{ nodeId: node.id, label: `${prefix}${label}`, text: content.trim() }];
+	}
+
+	// Fetched pages are kept in the plugin's data folder and refetched once they expire.
+	// A stale copy is used if the page can't be fetched.
+	private async resolveLink(node: CanvasNode, prefix: string, options: ResolveOptions): Promise<SourceInput[]> {
+		if (!node.url) return [];
+		const adapter = this.plugin.host.storage;
+		const path = `${this.linkDirectory}/${await sha256(node.url)}.json`;
+
+		let cached: CachedLink | null = null;
+		if (await adapter.exists(path)) {
+			try {
+				cached = JSON.parse(await adapter.read(path));
+			} catch (error) {
+				this.plugin.debug(`Ignoring unreadable link cache for ${node.url}:`, error);
+			}
+		}
+
+		const maxAgeMs = this.plugin.settings.linkCacheHours * 60 * 60 * 1000;
+		if (options.cachedOnly) {
+			return cached ? [{ nodeId: node.id, label: `${prefix}${node.url}`, text: cached.text }] : [];
+		}
+		if (!cached || Date.now() - cached.fetchedAt > maxAgeMs) {
+			try {
+				const response = await requestUrl({ url: node.url });
+				const contentType = response.headers['content-type'] || '';
+				const text = contentType.includes('html') ? htmlToMarkdown(response.text) : response.text;
+				cached = { url: node.url, fetchedAt: Date.now(), text: text.trim() };
+
+				if (!(await adapter.exists(this.linkDirectory))) {
+					await adapter.mkdir(this.linkDirectory);
+				}
+				await adapter.write(path, JSON.stringify(cached));
+			} catch (error) {
+				if (!cached) throw error;
+				this.plugin.debug(`Fetching ${node.url} failed, using the copy from ${new Date(cached.fetchedAt).toISOString()}:`, error);
+			}
+		}
+
+		return [{ nodeId: node.id, label: `${prefix}${node.url}`, text: cached.text }];
+	}
+
+	// Every node inside the group's bounds, top to bottom then left to right. Blocks are skipped;
+	// their output nodes carry what they produced.
+	private async resolveGroup(group: CanvasNode, data: CanvasData, seen: Set<string>, prefix: string, options: ResolveOptions): Promise<SourceInput[]> {
+		const children = data.nodes
+			.filter(node => node.id !== group.id && !node.livingCanvas && this.isInside(node, group))
+			.sort((a, b) => a.y - b.y || a.x - b.x);
+		const groupLabel = `${prefix}${group.label || 'Group'}`;
+
+		const sources: SourceInput[] = [];
+		for (const child of children) {
+			sources.push(...await this.resolveNode(child, data, seen, options, groupLabel));
+		}
+		return sources;
+	}
+
+	private isInside(node: CanvasNode, group: CanvasNode): boolean {
+		return node.x >= group.x
+			&& node.y >= group.y
+			&& node.x + node.width <= group.x + group.width
+			&& node.y + node.height <= group.y + group.height;
+	}
+}
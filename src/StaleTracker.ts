@@ -0,0 +1,172 @@
+import { TAbstractFile, TFile } from 'obsidian';
+import { LivingCanvasPlugin } from '../main';
+import { CanvasNode } from './CanvasManager';
+import { hashValue } from './hash';
+import { BlockInputs } from './SourceResolver';
+
+// Wait this long after a change before checking, so a burst of edits is checked once
+const CHECK_DELAY_MS = 1000;
+
+// Class added to stale blocks in the open canvas view
+const STALE_CLASS = 'living-canvas-stale';
+
+// Everything a run's result depends on besides the model's randomness
+export async function hashRunInputs(blockType: string, config: unknown, inputs: BlockInputs): Promise<string> {
+	return hashValue({ blockType, config, text: inputs.text, named: inputs.named });
+}
+
+// Marks blocks 'stale' when their inputs or config change after a run, and optionally re-runs them
+export class StaleTracker {
+	private plugin: LivingCanvasPlugin;
+	// Pending checks and re-runs, per canvas path
+	private checkTimers = new Map<string, number>();
+	private rerunTimers = new Map<string, number>();
+
+	constructor(plugin: LivingCanvasPlugin) {
+		this.plugin = plugin;
+	}
+
+	async initialize(): Promise<void> {
+		this.plugin.debug('Initializing StaleTracker');
+
+		const vault = this.plugin.app.vault;
+		this.plugin.registerEvent(vault.on('modify', file => this.handleFileChange(file)));
+		this.plugin.registerEvent(vault.on('delete', file => this.handleFileChange(file)));
+		this.plugin.registerEvent(vault.on('rename', (file, oldPath) => this.handleFileChange(file, oldPath)));
+
+		// Notes may have been edited while Obsidian was closed or the canvas wasn't open
+		this.plugin.registerEvent(this.plugin.app.workspace.on('active-leaf-change', leaf => {
+			if (leaf?.view.getViewType() === 'canvas') {
+				const file = (leaf.view as unknown as { file?: TFile }).file;
+				if (file) this.scheduleCheck(file);
+			}
+		}));
+		this.plugin.app.workspace.onLayoutReady(() => {
+			for (const file of this.plugin.canvasManager.getOpenCanvasFiles()) {
+				this.scheduleCheck(file);
+			}
+		});
+	}
+
+	cleanup(): void {
+		for (const timer of [...this.checkTimers.values(), ...this.rerunTimers.values()]) {
+			window.clearTimeout(timer);
+		}
+		this.checkTimers.clear();
+		this.rerunTimers.clear();
+	}
+
+	// A change to an open canvas, or to a note one of its nodes shows, may leave blocks stale
+	private async handleFileChange(file: TAbstractFile, oldPath?: string): Promise<void> {
+		if (!(file instanceof TFile) && !oldPath) return;
+		for (const canvasFile of this.plugin.canvasManager.getOpenCanvasFiles()) {
+			if (canvasFile.path === file.path) {
+				this.scheduleCheck(canvasFile);
+				continue;
+			}
+			const data = await this.plugin.canvasManager.readCanvasData(canvasFile);
+			const paths = [file.path, oldPath];
+			if (data?.nodes.some(node => node.type === 'file' && paths.includes(node.file))) {
+				this.scheduleCheck(canvasFile);
+			}
+		}
+	}
+
+	scheduleCheck(canvasFile: TFile): void {
+		window.clearTimeout(this.checkTimers.get(canvasFile.path));
+		this.checkTimers.set(canvasFile.path, window.setTimeout(() => {
+			this.checkTimers.delete(canvasFile.path);
+			this.checkCanvas(canvasFile);
+		}, CHECK_DELAY_MS));
+	}
+
+	// Compare each completed block's inputs with the ones its last run used. Blocks downstream
+	// of a stale block are stale too, since they were built on an outdated result.
+	async checkCanvas(canvasFile: TFile): Promise<void> {
+		// A running pipeline updates its blocks itself; its writes trigger another check afterwards
+		if (this.plugin.pipelineRunner.isRunning(canvasFile.path)) return;
+
+		const data = await this.plugin.canvasManager.readCanvasData(canvasFile);
+		if (!data) return;
+
+		const tracked = data.nodes.filter(node => this.isTracked(node, canvasFile));
+		const changed: string[] = [];
+		for (const block of tracked) {
+			// Runs from before hashes were recorded can't be compared
+			if (!block.livingCanvas?.inputHash) continue;
+			const hash = await this.computeInputHash(block, canvasFile);
+			if (hash !== block.livingCanvas?.inputHash) {
+				changed.push(block.id);
+			}
+		}
+		const stale = this.plugin.pipelineRunner.getDownstream(changed, this.plugin.pipelineRunner.buildGraph(data));
+
+		const newlyStale = await this.plugin.canvasManager.transaction(transaction => {
+			const marked: string[] = [];
+			for (const block of tracked) {
+				// The block may have started running since it was read
+				const current = transaction.getNode(block.id);
+				if (!current || !this.isTracked(current, canvasFile)) continue;
+
+				const status = stale.has(block.id) ? 'stale' : 'complete';
+				if (current.livingCanvas?.status === status) continue;
+				transaction.updateLivingCanvas(block.id, { status });
+				if (status === 'stale') marked.push(block.id);
+			}
+			return marked;
+		}, canvasFile);
+
+		await this.decorate(canvasFile);
+		if (newlyStale && newlyStale.length > 0) {
+			this.plugin.debug(`Marked ${newlyStale.length} block(s) stale in ${canvasFile.path}`);
+			if (this.plugin.settings.autoRerunStale) {
+				this.scheduleRerun(canvasFile);
+			}
+		}
+	}
+
+	async computeInputHash(block: CanvasNode, canvasFile: TFile): Promise<string | null> {
+		const state = block.livingCanvas;
+		if (!state) return null;
+		const declared = (this.plugin.blockManager.getBlock(state.blockType)?.inputs || []).map(input => input.name);
+		const inputs = await this.plugin.sourceResolver.getInputs(block.id, canvasFile, declared, { cachedOnly: true });
+		return hashRunInputs(state.blockType, state.config, inputs);
+	}
+
+	// Completed blocks that aren't running; only these can become stale or fresh again
+	private isTracked(node: CanvasNode, canvasFile: TFile): boolean {
+		const status = node.livingCanvas?.status;
+		return (status === 'complete' || status === 'stale')
+			&& !this.plugin.runManager.isRunning(node.id, canvasFile.path);
+	}
+
+	// Re-run stale blocks once edits have paused for the configured delay
+	private scheduleRerun(canvasFile: TFile): void {
+		window.clearTimeout(this.rerunTimers.get(canvasFile.path));
+		const delayMs = this.plugin.settings.autoRerunDelaySeconds * 1000;
+		this.rerunTimers.set(canvasFile.path, window.setTimeout(() => {
+			this.rerunTimers.delete(canvasFile.path);
+			if (!this.plugin.pipelineRunner.isRunning(canvasFile.path)) {
+				this.runStaleBlocks(canvasFile);
+			}
+		}, delayMs));
+	}
+
+	// Re-run every stale block on the canvas in dependency order; false if there were none
+	async runStaleBlocks(canvasFile: TFile): Promise<boolean> {
+		const blocks = await this.plugin.canvasManager.getLivingCanvasNodes(canvasFile);
+		const stale = blocks.filter(block => block.livingCanvas?.status === 'stale').map(block => block.id);
+		if (stale.length === 0) return false;
+		this.plugin.debug(`Re-running ${stale.length} stale block(s) in ${canvasFile.path}`);
+		await this.plugin.pipelineRunner.runBlocks(stale, canvasFile);
+		return true;
+	}
+
+	// Outline stale blocks in the open view; the canvas file itself only stores the status
+	async decorate(canvasFile: TFile): Promise<void> {
+		for (const block of await this.plugin.canvasManager.getLivingCanvasNodes(canvasFile)) {
+			const element = this.plugin.canvasManager.getNodeElement(block.id, canvasFile);
+			element?.classList.toggle(STALE_CLASS, block.livingCanvas?.status === 'stale');
+		}
+	}
+}
@@ -1,12 +1,24 @@
-import { App, Notice, TFile, Menu, Editor, MarkdownView, MenuItem } from 'obsidian';
+import { App, Notice, TFile, Menu, Editor, MarkdownView, MenuItem, EventRef } from 'obsidian';
 import { LivingCanvasPlugin } from '../main';
-import { BlockDefinition } from './BlockManager';
-import { CanvasNode } from './CanvasManager';
+import { BlockDefinition, BlockSetting, GENERATION_SETTINGS, RUN_SETTINGS } from './BlockManager';
+import { BlockTestReport, BlockTestResult } from './BlockTester';
+import { CanvasNode, OutputVersion } from './CanvasManager';
+import { BLOCK_PERMISSIONS, BlockPermission } from './ExecutorSandbox';
+import { diffLines } from './OutputHistory';
+import { describeProvenance } from './Provenance';
+import { UsageSummary } from './UsageLedger';
+
+// The node passed to 'canvas:node-menu' by the Canvas view
+interface CanvasMenuNode {
+	id: string;
+	getData?: () => Partial<CanvasNode>;
+}
 
 export class UIManager {
 	private plugin: LivingCanvasPlugin;
 	private blockConfigView: BlockConfigView | null = null;
 	private selectedNode: CanvasNode | null = null;
+	private reviewingPermissions = false;
 
 	constructor(plugin: LivingCanvasPlugin) {
 		this.plugin = plugin;
@@ -23,6 +35,9 @@ export class UIManager {
 		
 		// Register canvas click handler
 		this.registerCanvasClickHandler();
+
+		// Ask about permissions of blocks installed since the last start
+		this.plugin.app.workspace.onLayoutReady(() => this.reviewBlockPermissions());
 	}
 
 	cleanup(): void {
@@ -84,6 +99,216 @@ export class UIManager {
 			}
 		});
 
+		// Run Block bypassing the response cache
+		this.plugin.addCommand({
+			id: 'run-block-force-refresh',
+			name: 'Run Selected Block (Force Refresh)',
+			callback: async () => {
+				const node = await this.resolveTargetLivingNode();
+				if (!node) return;
+				await this.plugin.actionHandler.handleRunBlock(node.id, { forceRefresh: true });
+			}
+		});
+
+		// Run Block into a new output node, keeping the current one as it is
+		this.plugin.addCommand({
+			id: 'run-block-fork',
+			name: 'Run Selected Block Into New Output Node',
+			callback: async () => {
+				const node = await this.resolveTargetLivingNode();
+				if (!node) return;
+				await this.plugin.actionHandler.handleRunBlock(node.id, { fork: true });
+			}
+		});
+
+		// Pipeline commands: run blocks in dependency order
+		this.plugin.addCommand({
+			id: 'run-pipeline-from-here',
+			name: 'Run From Selected Block (Pipeline)',
+			callback: async () => {
+				const node = await this.resolveTargetLivingNode();
+				if (!node) return;
+				await this.plugin.pipelineRunner.runFrom(node.id);
+			}
+		});
+
+		this.plugin.addCommand({
+			id: 'run-pipeline-up-to-here',
+			name: 'Run Up To Selected Block (Pipeline)',
+			callback: async () => {
+				const node = await this.resolveTargetLivingNode();
+				if (!node) return;
+				await this.plugin.pipelineRunner.runUpTo(node.id);
+			}
+		});
+
+		this.plugin.addCommand({
+			id: 'run-entire-canvas',
+			name: 'Run Entire Canvas',
+			checkCallback: (checking: boolean) => {
+				const canvasView = this.getCurrentCanvasView();
+				if (canvasView) {
+					if (!checking) {
+						this.plugin.pipelineRunner.runAll();
+					}
+					return true;
+				}
+				return false;
+			}
+		});
+
+		// Bring blocks whose inputs changed since their last run up to date
+		this.plugin.addCommand({
+			id: 'run-stale-blocks',
+			name: 'Run Stale Blocks',
+			checkCallback: (checking: boolean) => {
+				const canvasFile = this.getCurrentCanvasView();
+				if (canvasFile) {
+					if (!checking) {
+						this.plugin.staleTracker.runStaleBlocks(canvasFile).then(ran => {
+							if (!ran) new Notice('No stale blocks on this canvas');
+						});
+					}
+					return true;
+				}
+				return false;
+			}
+		});
+
+		// Cancel the selected block's run
+		this.plugin.addCommand({
+			id: 'cancel-block-run',
+			name: 'Cancel Selected Block Run',
+			callback: async () => {
+				const node = await this.resolveTargetLivingNode();
+				if (!node) return;
+				this.plugin.actionHandler.handleCancelRun(node.id);
+			}
+		});
+
+		// Cancel every active run
+		this.plugin.addCommand({
+			id: 'cancel-all-runs',
+			name: 'Cancel All Running Blocks',
+			callback: () => {
+				const count = this.plugin.runManager.getActiveRuns().length;
+				this.plugin.runManager.cancelAll();
+				new Notice(count > 0 ? `Cancelling ${count} running block(s)` : 'No blocks are running');
+			}
+		});
+
+		// Browse, diff and restore earlier outputs of the selected block or output node
+		this.plugin.addCommand({
+			id: 'show-output-history',
+			name: 'Show Output History',
+			callback: async () => {
+				const canvasFile = this.getCurrentCanvasView();
+				if (!canvasFile) {
+					new Notice('No canvas file is currently open');
+					return;
+				}
+				const outputNodeId = await this.resolveTargetOutputNodeId(canvasFile);
+				if (outputNodeId) {
+					this.showOutputHistory(outputNodeId, canvasFile);
+				}
+			}
+		});
+
+		// How the selected output node, or the selected block's output, was generated
+		this.plugin.addCommand({
+			id: 'show-provenance',
+			name: 'Show Output Provenance',
+			callback: async () => {
+				const canvasFile = this.getCurrentCanvasView();
+				if (!canvasFile) {
+					new Notice('No canvas file is currently open');
+					return;
+				}
+				const outputNodeId = await this.resolveTargetOutputNodeId(canvasFile);
+				if (outputNodeId) {
+					this.showProvenance(outputNodeId, canvasFile);
+				}
+			}
+		});
+
+		// Save the selected output as a note, with its provenance as properties
+		this.plugin.addCommand({
+			id: 'export-output-to-note',
+			name: 'Export Output to Note',
+			callback: async () => {
+				const canvasFile = this.getCurrentCanvasView();
+				if (!canvasFile) {
+					new Notice('No canvas file is currently open');
+					return;
+				}
+				const outputNodeId = await this.resolveTargetOutputNodeId(canvasFile);
+				if (outputNodeId) {
+					await this.plugin.actionHandler.handleExportOutput(outputNodeId, canvasFile);
+				}
+			}
+		});
+
+		// Usage report command
+		this.plugin.addCommand({
+			id: 'show-usage-report',
+			name: 'Show Usage & Cost Report',
+			callback: () => this.showUsageReport()
+		});
+
+		// Arrange the selected block's pipeline, or every block, left to right
+		this.plugin.addCommand({
+			id: 'tidy-pipeline',
+			name: 'Tidy Pipeline',
+			checkCallback: (checking: boolean) => {
+				const canvasFile = this.getCurrentCanvasView();
+				if (canvasFile) {
+					if (!checking) {
+						this.getSelectedLivingCanvasNode(canvasFile)
+							.then(node => this.plugin.layoutService.tidyPipeline(node?.id ?? null, canvasFile));
+					}
+					return true;
+				}
+				return false;
+			}
+		});
+
+		// Check the open canvas against the JSON Canvas spec
+		this.plugin.addCommand({
+			id: 'validate-canvas',
+			name: 'Validate Canvas File',
+			checkCallback: (checking: boolean) => {
+				const canvasFile = this.getCurrentCanvasView();
+				if (canvasFile) {
+					if (!checking) {
+						this.validateCanvas(canvasFile);
+					}
+					return true;
+				}
+				return false;
+			}
+		});
+
+		// Run the test cases of the selected block's type, or of a block picked from a list
+		this.plugin.addCommand({
+			id: 'test-block',
+			name: 'Test Block',
+			callback: async () => {
+				const canvasFile = this.getCurrentCanvasView();
+				const node = canvasFile ? await this.getSelectedLivingCanvasNode(canvasFile) : null;
+				if (node?.livingCanvas) {
+					this.showBlockTests(node.livingCanvas.blockType);
+				} else {
+					this.showTestBlockSelection();
+				}
+			}
+		});
+
+		this.plugin.addCommand({
+			id: 'test-all-blocks',
+			name: 'Test All Blocks',
+			callback: () => this.showBlockTests(null)
+		});
+
 		// Configure Block command (always visible; will prompt for a block if none selected)
 		this.plugin.addCommand({
 			id: 'configure-block',
@@ -108,7 +333,8 @@ export class UIManager {
 								.setTitle('Ask AI to Clarify')
 								.setIcon('help')
 								.onClick(async () => {
-									await this.plugin.actionHandler.handleClarifyText(selectedText);
+									const sourceNodeId = await this.getClarifySourceNodeId(view?.file ?? null);
+									await this.plugin.actionHandler.handleClarifyText(selectedText, sourceNodeId);
 								});
 						});
 					}
@@ -118,9 +344,88 @@ export class UIManager {
 			})
 		);
 
+		// Canvas node context menu: run or cancel Living Canvas blocks.
+		// 'canvas:node-menu' is fired by the core Canvas view but isn't in the public typings.
+		const workspace = this.plugin.app.workspace as unknown as {
+			on(name: 'canvas:node-menu', callback: (menu: Menu, node: CanvasMenuNode) => void): EventRef;
+		};
+		this.plugin.registerEvent(
+			workspace.on('canvas:node-menu', (menu: Menu, canvasNode: CanvasMenuNode) => {
+				const canvasFile = this.plugin.getCurrentCanvasFile();
+				if (!canvasFile || !canvasNode?.id) return;
+
+				// The view keeps unknown fields, so the block marker is available synchronously
+				const nodeData = canvasNode.getData?.();
+				if (nodeData?.livingCanvas) {
+					menu.addItem((item: MenuItem) => {
+						item
+							.setTitle('Run from here')
+							.setIcon('play')
+							.onClick(() => this.plugin.pipelineRunner.runFrom(canvasNode.id));
+					});
+					menu.addItem((item: MenuItem) => {
+						item
+							.setTitle('Run up to here')
+							.setIcon('skip-forward')
+							.onClick(() => this.plugin.pipelineRunner.runUpTo(canvasNode.id));
+					});
+					menu.addItem((item: MenuItem) => {
+						item
+							.setTitle('Tidy pipeline')
+							.setIcon('layout-grid')
+							.onClick(() => this.plugin.layoutService.tidyPipeline(canvasNode.id, canvasFile));
+					});
+				}
+
+				const outputNodeId = nodeData?.livingCanvasOutput ? canvasNode.id : nodeData?.livingCanvas?.outputNodeId;
+				if (outputNodeId) {
+					menu.addItem((item: MenuItem) => {
+						item
+							.setTitle('Output history')
+							.setIcon('history')
+							.onClick(() => this.showOutputHistory(outputNodeId, canvasFile));
+					});
+					menu.addItem((item: MenuItem) => {
+						item
+							.setTitle('Provenance')
+							.setIcon('info')
+							.onClick(() => this.showProvenance(outputNodeId, canvasFile));
+					});
+					menu.addItem((item: MenuItem) => {
+						item
+							.setTitle('Export to note')
+							.setIcon('file-output')
+							.onClick(() => this.plugin.actionHandler.handleExportOutput(outputNodeId, canvasFile));
+					});
+				}
+
+				if (this.plugin.runManager.isRunning(canvasNode.id, canvasFile.path)) {
+					menu.addItem((item: MenuItem) => {
+						item
+							.setTitle('Cancel block run')
+							.setIcon('square')
+							.onClick(() => this.plugin.actionHandler.handleCancelRun(canvasNode.id));
+					});
+				}
+			})
+		);
+
 		this.plugin.debug('Context menus registered');
 	}
 
+	// The canvas node the selected text comes from: the node being edited on the canvas,
+	// or a file node showing the note open in the editor
+	private async getClarifySourceNodeId(file: TFile | null): Promise<string | undefined> {
+		const canvasFile = this.plugin.getCurrentCanvasFile();
+		if (!canvasFile) return undefined;
+		if (this.getCurrentCanvasView()) {
+			return this.plugin.canvasManager.getSelectedNodeIds(canvasFile)[0];
+		}
+		if (!file) return undefined;
+		const data = await this.plugin.canvasManager.readCanvasData(canvasFile);
+		return data?.nodes.find(node => node.type === 'file' && node.file === file.path)?.id;
+	}
+
 	private registerCanvasClickHandler(): void {
 		// Register click handler for canvas nodes
 		this.plugin.registerDomEvent(document, 'click', (evt: MouseEvent) => {
@@ -192,28 +497,30 @@ export class UIManager {
 		this.plugin.canvasManager.setCurrentCanvas(canvasFile);
 		console.log(`[Living Canvas] Canvas manager updated with current canvas`);
 
-		// Create the block node
+		// Create the block node in free space next to the selection, or in the middle of the view
+		const size = { width: 250, height: 60 };
 		const blockNode = {
 			type: 'text',
 			text: `📝 ${blockDefinition.name}`,
-			x: 100,
-			y: 100,
-			width: 250,
-			height: 60,
+			...size,
 			livingCanvas: {
 				blockType: blockId,
 				status: 'idle' as const,
-				config: this.getDefaultConfig(blockDefinition)
+				config: this.plugin.blockManager.getDefaultConfig(blockDefinition)
 			}
 		};
 		console.log(`[Living Canvas] Block node created:`, blockNode);
 
 		console.log(`[Living Canvas] Calling createNode...`);
-		const nodeId = await this.plugin.canvasManager.createNode(blockNode, canvasFile);
+		const nodeId = await this.plugin.canvasManager.transaction(transaction => {
+			const position = this.plugin.layoutService.placeNewNode(transaction.data, size, canvasFile);
+			return transaction.addNode({ ...blockNode, ...position });
+		}, canvasFile);
 		console.log(`[Living Canvas] createNode returned nodeId:`, nodeId);
 		
 		if (nodeId) {
 			console.log(`[Living Canvas] Successfully inserted block with nodeId: ${nodeId}`);
+			this.plugin.canvasManager.selectNode(nodeId, canvasFile);
 			new Notice(`Inserted ${blockDefinition.name} block`);
 		} else {
 			console.error(`[Living Canvas] Failed to create node`);
@@ -221,18 +528,6 @@ export class UIManager {
 		}
 	}
 
-	private getDefaultConfig(blockDefinition: BlockDefinition): Record<string, unknown> {
-		const config: Record<string, unknown> = {};
-		
-		for (const setting of blockDefinition.settings) {
-			if (setting.default !== undefined) {
-				config[setting.name] = setting.default;
-			}
-		}
-		
-		return config;
-	}
-
 	private showBlockConfigView(node: CanvasNode): void {
 		if (!node.livingCanvas) return;
 
@@ -263,17 +558,147 @@ export class UIManager {
 		const canvasFile = this.plugin.getCurrentCanvasFile();
 		if (!canvasFile) return;
 
-		await this.plugin.canvasManager.updateNodeData(node.id, {
-			livingCanvas: {
-				...node.livingCanvas,
-				status: 'idle',
-				error: undefined
-			}
+		await this.plugin.canvasManager.updateLivingCanvas(node.id, {
+			status: 'idle',
+			error: undefined
 		}, canvasFile);
 
 		new Notice('Block reset successfully');
 	}
 
+	showOutputHistory(outputNodeId: string, canvasFile: TFile): void {
+		const view = new OutputHistoryView(this.plugin, outputNodeId, canvasFile);
+		view.open();
+	}
+
+	showProvenance(outputNodeId: string, canvasFile: TFile): void {
+		const view = new ProvenanceView(this.plugin, outputNodeId, canvasFile);
+		view.open();
+	}
+
+	// The selected output node, or the output node of the selected block
+	private async resolveTargetOutputNodeId(canvasFile: TFile): Promise<string | null> {
+		for (const nodeId of this.plugin.canvasManager.getSelectedNodeIds(canvasFile)) {
+			const node = await this.plugin.canvasManager.getNode(nodeId, canvasFile);
+			if (node?.livingCanvasOutput) return node.id;
+		}
+
+		const block = await this.resolveTargetLivingNode();
+		if (!block) return null;
+		const outputNodeId = block.livingCanvas?.outputNodeId;
+		if (!outputNodeId || !(await this.plugin.canvasManager.getNode(outputNodeId, canvasFile))) {
+			new Notice('This block has no output yet');
+			return null;
+		}
+		return outputNodeId;
+	}
+
+	// Report problems with the saved canvas file; the full list goes to the console
+	private async validateCanvas(canvasFile: TFile): Promise<void> {
+		const { errors, warnings } = await this.plugin.canvasManager.validateCanvasFile(canvasFile);
+		if (errors.length === 0 && warnings.length === 0) {
+			new Notice(`${canvasFile.name} is a valid canvas`);
+			return;
+		}
+
+		console.log(`[Living Canvas] Validation of ${canvasFile.path}:`, { errors, warnings });
+		const lines = [
+			errors.length > 0 ? `${canvasFile.name} is not a valid canvas` : `${canvasFile.name} is usable, with warnings`,
+			...[...errors, ...warnings].slice(0, 5)
+		];
+		const remaining = errors.length + warnings.length - 5;
+		if (remaining > 0) {
+			lines.push(`…and ${remaining} more (see console)`);
+		}
+		new Notice(lines.join('\n'), 10000);
+	}
+
+	// Ask the user to approve or decline the permissions of each block that declares new ones
+	async reviewBlockPermissions(): Promise<void> {
+		if (this.reviewingPermissions) return;
+		this.reviewingPermissions = true;
+		try {
+			for (const block of this.plugin.blockManager.getAllBlocks()) {
+				const permissions = this.plugin.blockManager.getUnreviewedPermissions(block);
+				if (permissions.length === 0) continue;
+
+				const approved = await new Promise<boolean | null>(resolve => {
+					new PermissionRequestModal(block, permissions, this.plugin.blockManager.hasChangedSinceReview(block), resolve).open();
+				});
+				// Dismissed: asked again next time
+				if (approved === null) continue;
+				for (const permission of permissions) {
+					await this.plugin.blockManager.setPermission(block.id, permission, approved);
+				}
+			}
+		} finally {
+			this.reviewingPermissions = false;
+		}
+	}
+
+	// Run the tests of one block type, or of every block that has tests, and show the results
+	showBlockTests(blockId: string | null): void {
+		let blocks: BlockDefinition[];
+		if (blockId) {
+			const block = this.plugin.blockManager.getBlock(blockId);
+			if (!block) {
+				new Notice(`Block type '${blockId}' not found`);
+				return;
+			}
+			blocks = [block];
+		} else {
+			blocks = this.plugin.blockTester.getTestableBlocks();
+		}
+
+		const untested = blocks.find(block => !block.testsPath);
+		if (untested) {
+			new Notice(`${untested.name} has no tests.json`);
+			return;
+		}
+		if (blocks.length === 0) {
+			new Notice('No blocks have tests. Add a tests.json to a block\'s folder.');
+			return;
+		}
+		const view = new BlockTestView(this.plugin, blocks);
+		view.open();
+	}
+
+	private showTestBlockSelection(): void {
+		const blocks = this.plugin.blockTester.getTestableBlocks();
+		if (blocks.length === 0) {
+			new Notice('No blocks have tests. Add a tests.json to a block\'s folder.');
+			return;
+		}
+		const modal = new BlockSelectionModal(this.plugin.app, blocks, (blockId) => {
+			if (blockId) {
+				this.showBlockTests(blockId);
+			}
+		}, 'Select a Block to Test');
+		modal.open();
+	}
+
+	showUsageReport(): void {
+		const view = new UsageReportView(this.plugin);
+		view.open();
+	}
+
+	// Write the usage ledger as a CSV file in the vault root
+	async exportUsageCSV(): Promise<void> {
+		const date = new Date().toISOString().slice(0, 10);
+		let path = `Living Canvas Usage ${date}.csv`;
+		for (let i = 1; this.plugin.app.vault.getAbstractFileByPath(path); i++) {
+			path = `Living Canvas Usage ${date} (${i}).csv`;
+		}
+
+		try {
+			await this.plugin.app.vault.create(path, this.plugin.usageLedger.toCSV());
+			new Notice(`Usage exported to ${path}`);
+		} catch (error) {
+			console.error('Error exporting usage CSV:', error);
+			new Notice('Failed to export usage CSV');
+		}
+	}
+
 	private getCurrentCanvasView(): TFile | null {
 		const activeLeaf = this.plugin.app.workspace.activeLeaf;
 		if (activeLeaf && activeLeaf.view.getViewType() === 'canvas') {
@@ -282,21 +707,29 @@ export class UIManager {
 		return null;
 	}
 
-	private getSelectedLivingCanvasNode(): CanvasNode | null {
-		return this.selectedNode;
+	// The selected block: the canvas view's own selection first, then the last clicked block.
+	// Nodes are read fresh so their config and status are current.
+	private async getSelectedLivingCanvasNode(canvasFile: TFile): Promise<CanvasNode | null> {
+		const selectedIds = this.plugin.canvasManager.getSelectedNodeIds(canvasFile);
+		const candidateIds = selectedIds.length > 0 ? selectedIds : this.selectedNode ? [this.selectedNode.id] : [];
+		for (const nodeId of candidateIds) {
+			const node = await this.plugin.canvasManager.getNode(nodeId, canvasFile);
+			if (node?.livingCanvas) return node;
+		}
+		return null;
 	}
 
 	// Resolve a target living-canvas node: use selection if available, otherwise prompt user to choose
 	private async resolveTargetLivingNode(): Promise<CanvasNode | null> {
-		const selected = this.getSelectedLivingCanvasNode();
-		if (selected && selected.livingCanvas) return selected;
-
 		const canvasFile = this.getCurrentCanvasView();
 		if (!canvasFile) {
 			new Notice('No canvas file is currently open');
 			return null;
 		}
 
+		const selected = await this.getSelectedLivingCanvasNode(canvasFile);
+		if (selected) return selected;
+
 		const nodes = await this.plugin.canvasManager.getLivingCanvasNodes(canvasFile);
 		if (nodes.length === 0) {
 			new Notice('No Living Canvas blocks found on this canvas');
@@ -315,12 +748,14 @@ class BlockSelectionModal {
 	private app: App;
 	private blocks: BlockDefinition[];
 	private onSelect: (blockId: string | null) => void;
+	private title: string;
 	private modalEl: HTMLElement;
 
-	constructor(app: App, blocks: BlockDefinition[], onSelect: (blockId: string | null) => void) {
+	constructor(app: App, blocks: BlockDefinition[], onSelect: (blockId: string | null) => void, title = 'Select a Block to Insert') {
 		this.app = app;
 		this.blocks = blocks;
 		this.onSelect = onSelect;
+		this.title = title;
 	}
 
 	open(): void {
@@ -351,7 +786,7 @@ class BlockSelectionModal {
 		`;
 
 		const title = document.createElement('h3');
-		title.textContent = 'Select a Block to Insert';
+		title.textContent = this.title;
 		title.style.marginTop = '0';
 
 		const blocksContainer = document.createElement('div');
@@ -671,24 +1106,16 @@ class CreateCustomBlockModal {
     }
 }
 
-// Block Configuration View
-class BlockConfigView {
-	private app: App;
+// Usage report with per-day, per-canvas and per-node rollups
+class UsageReportView {
 	private plugin: LivingCanvasPlugin;
-	private node: CanvasNode;
-	private blockDefinition: BlockDefinition;
 	private modalEl: HTMLElement;
-	private viewEl: HTMLElement;
 
-	constructor(app: App, plugin: LivingCanvasPlugin, node: CanvasNode, blockDefinition: BlockDefinition) {
-		this.app = app;
+	constructor(plugin: LivingCanvasPlugin) {
 		this.plugin = plugin;
-		this.node = node;
-		this.blockDefinition = blockDefinition;
 	}
 
 	open(): void {
-		// Create overlay modal
 		this.modalEl = document.createElement('div');
 		this.modalEl.className = 'modal';
 		this.modalEl.style.cssText = `
@@ -704,106 +1131,830 @@ class BlockConfigView {
 			z-index: 1000;
 		`;
 
-		// Modal content
-		this.viewEl = document.createElement('div');
-		this.viewEl.className = 'living-canvas-config-view';
-		this.viewEl.style.cssText = `
+		const content = document.createElement('div');
+		content.style.cssText = `
+			background: var(--background-primary);
 			padding: 20px;
-			min-width: 520px;
-			max-width: 720px;
+			border-radius: 8px;
+			min-width: 560px;
+			max-width: 900px;
 			max-height: 80vh;
 			overflow-y: auto;
-			background: var(--background-primary);
-			border-radius: 8px;
 		`;
 
 		const title = document.createElement('h3');
-		title.textContent = `Configure ${this.blockDefinition.name}`;
+		title.textContent = 'Usage & Cost';
 		title.style.marginTop = '0';
+		content.appendChild(title);
 
-		const form = document.createElement('form');
-		form.style.cssText = `
-			display: flex;
-			flex-direction: column;
-			gap: 16px;
-		`;
+		const ledger = this.plugin.usageLedger;
+		const totals = ledger.getTotals();
+		const summary = document.createElement('p');
+		summary.textContent = `${totals.runs} runs · ${totals.inputTokens.toLocaleString()} input tokens · ${totals.outputTokens.toLocaleString()} output tokens · estimated $${totals.cost.toFixed(4)}`;
+		content.appendChild(summary);
+
+		content.appendChild(this.createTable('By day', ledger.summarizeByDay()));
+		content.appendChild(this.createTable('By canvas', ledger.summarizeByCanvas()));
+		content.appendChild(this.createTable('By node', ledger.summarizeByNode()));
+
+		const buttons = document.createElement('div');
+		buttons.style.display = 'flex';
+		buttons.style.gap = '8px';
+		buttons.style.marginTop = '12px';
+
+		const exportBtn = document.createElement('button');
+		exportBtn.textContent = 'Export CSV';
+		exportBtn.onclick = async () => {
+			await this.plugin.uiManager.exportUsageCSV();
+		};
 
-		// Create form fields based on block settings
-		for (const setting of this.blockDefinition.settings) {
-			const fieldContainer = document.createElement('div');
-			
-			const label = document.createElement('label');
-			label.textContent = setting.description;
-			label.style.display = 'block';
-			label.style.marginBottom = '4px';
-			label.style.fontWeight = '500';
-
-			let input: HTMLElement;
-
-			switch (setting.type) {
-				case 'text':
-					input = document.createElement('input');
-					(input as HTMLInputElement).type = 'text';
-					(input as HTMLInputElement).value = this.node.livingCanvas?.config[setting.name] || setting.default || '';
-					break;
-
-				case 'textarea':
-					input = document.createElement('textarea');
-					(input as HTMLTextAreaElement).value = this.node.livingCanvas?.config[setting.name] || setting.default || '';
-					(input as HTMLTextAreaElement).rows = 4;
-					break;
-
-				case 'dropdown':
-					input = document.createElement('select');
-					for (const [value, label] of Object.entries(setting.options || {})) {
-						const option = document.createElement('option');
-						option.value = value;
-						option.textContent = label;
-						(input as HTMLSelectElement).appendChild(option);
-					}
-					(input as HTMLSelectElement).value = this.node.livingCanvas?.config[setting.name] || setting.default || '';
-					break;
+		const closeBtn = document.createElement('button');
+		closeBtn.textContent = 'Close';
+		closeBtn.onclick = () => this.close();
 
-				case 'number':
-					input = document.createElement('input');
-					(input as HTMLInputElement).type = 'number';
-					(input as HTMLInputElement).value = this.node.livingCanvas?.config[setting.name] || setting.default || '';
-					break;
+		buttons.appendChild(exportBtn);
+		buttons.appendChild(closeBtn);
+		content.appendChild(buttons);
 
-				case 'boolean':
-					input = document.createElement('input');
-					(input as HTMLInputElement).type = 'checkbox';
-					(input as HTMLInputElement).checked = this.node.livingCanvas?.config[setting.name] || setting.default || false;
-					break;
+		this.modalEl.appendChild(content);
+		document.body.appendChild(this.modalEl);
 
-				default:
-					input = document.createElement('input');
-					(input as HTMLInputElement).type = 'text';
-			}
+		this.modalEl.onclick = (e) => {
+			if (e.target === this.modalEl) this.close();
+		};
+	}
 
-			// Set a stable name attribute for saving
-			if ((input as HTMLElement).setAttribute) {
-				(input as HTMLElement).setAttribute('name', setting.name);
-			}
+	private createTable(heading: string, rows: UsageSummary[]): HTMLElement {
+		const section = document.createElement('div');
 
-			input.style.cssText = `
-				width: 100%;
-				padding: 8px;
-				border: 1px solid var(--background-modifier-border);
-				border-radius: 4px;
-				background: var(--background-primary);
-				color: var(--text-normal);
-			`;
+		const header = document.createElement('h4');
+		header.textContent = heading;
+		header.style.margin = '16px 0 8px 0';
+		section.appendChild(header);
+
+		if (rows.length === 0) {
+			const empty = document.createElement('div');
+			empty.textContent = 'No runs recorded yet';
+			empty.style.color = 'var(--text-muted)';
+			section.appendChild(empty);
+			return section;
+		}
 
-			fieldContainer.appendChild(label);
-			fieldContainer.appendChild(input);
-			form.appendChild(fieldContainer);
+		const table = document.createElement('table');
+		table.style.width = '100%';
+		table.style.borderCollapse = 'collapse';
+
+		const headRow = document.createElement('tr');
+		for (const label of ['', 'Runs', 'Input tokens', 'Output tokens', 'Cost (USD)']) {
+			const th = document.createElement('th');
+			th.textContent = label;
+			th.style.textAlign = label ? 'right' : 'left';
+			th.style.padding = '4px 8px';
+			headRow.appendChild(th);
+		}
+		table.appendChild(headRow);
+
+		for (const row of rows) {
+			const tr = document.createElement('tr');
+			const cells = [row.key, String(row.runs), row.inputTokens.toLocaleString(), row.outputTokens.toLocaleString(), row.cost.toFixed(4)];
+			cells.forEach((value, index) => {
+				const td = document.createElement('td');
+				td.textContent = value;
+				td.style.textAlign = index === 0 ? 'left' : 'right';
+				td.style.padding = '4px 8px';
+				td.style.borderTop = '1px solid var(--background-modifier-border)';
+				tr.appendChild(td);
+			});
+			table.appendChild(tr);
 		}
 
-		const buttonContainer = document.createElement('div');
-		buttonContainer.style.cssText = `
-			display: flex;
-			gap: 8px;
+		section.appendChild(table);
+		return section;
+	}
+
+	private close(): void {
+		if (this.modalEl && this.modalEl.parentNode) {
+			this.modalEl.parentNode.removeChild(this.modalEl);
+		}
+	}
+}
+
+// Lists the current output of a node and its earlier versions, with a preview or a diff against
+// the current text, and buttons to restore a version or copy it into a new node
+class OutputHistoryView {
+	private plugin: LivingCanvasPlugin;
+	private outputNodeId: string;
+	private canvasFile: TFile;
+	private modalEl: HTMLElement;
+	private content: HTMLElement;
+
+	constructor(plugin: LivingCanvasPlugin, outputNodeId: string, canvasFile: TFile) {
+		this.plugin = plugin;
+		this.outputNodeId = outputNodeId;
+		this.canvasFile = canvasFile;
+	}
+
+	open(): void {
+		this.modalEl = document.createElement('div');
+		this.modalEl.className = 'modal';
+		this.modalEl.style.cssText = `
+			position: fixed;
+			top: 0;
+			left: 0;
+			width: 100%;
+			height: 100%;
+			background: rgba(0, 0, 0, 0.5);
+			display: flex;
+			align-items: center;
+			justify-content: center;
+			z-index: 1000;
+		`;
+
+		this.content = document.createElement('div');
+		this.content.style.cssText = `
+			background: var(--background-primary);
+			padding: 20px;
+			border-radius: 8px;
+			min-width: 560px;
+			max-width: 900px;
+			max-height: 80vh;
+			overflow-y: auto;
+		`;
+
+		this.modalEl.appendChild(this.content);
+		document.body.appendChild(this.modalEl);
+
+		this.modalEl.onclick = (e) => {
+			if (e.target === this.modalEl) this.close();
+		};
+
+		this.render();
+	}
+
+	// Re-read the node so the list reflects restores and new runs
+	private async render(): Promise<void> {
+		this.content.empty();
+
+		const title = document.createElement('h3');
+		title.textContent = 'Output History';
+		title.style.marginTop = '0';
+		this.content.appendChild(title);
+
+		const node = await this.plugin.canvasManager.getNode(this.outputNodeId, this.canvasFile);
+		if (!node?.livingCanvasOutput) {
+			const missing = document.createElement('p');
+			missing.textContent = 'This output node no longer exists.';
+			this.content.appendChild(missing);
+			this.content.appendChild(this.createCloseButton());
+			return;
+		}
+
+		const current: OutputVersion = {
+			text: node.text || '',
+			data: node.livingCanvasOutput.data,
+			createdAt: node.livingCanvasOutput.createdAt ?? 0
+		};
+		const history = node.livingCanvasOutput.history || [];
+
+		const preview = document.createElement('pre');
+		preview.style.cssText = `
+			white-space: pre-wrap;
+			max-height: 300px;
+			overflow-y: auto;
+			padding: 8px;
+			border: 1px solid var(--background-modifier-border);
+			border-radius: 4px;
+			font-size: 0.85em;
+		`;
+		preview.textContent = current.text;
+
+		this.content.appendChild(this.createRow('Current', current, preview));
+		if (history.length === 0) {
+			const empty = document.createElement('div');
+			empty.textContent = 'No earlier versions yet. Re-running the block keeps the previous output here.';
+			empty.style.color = 'var(--text-muted)';
+			empty.style.margin = '8px 0';
+			this.content.appendChild(empty);
+		}
+		history.forEach((version, index) => {
+			const row = this.createRow(`Version ${index + 1}`, version, preview);
+
+			const diffBtn = document.createElement('button');
+			diffBtn.textContent = 'Diff';
+			diffBtn.onclick = () => this.showDiff(preview, version.text, current.text);
+
+			const restoreBtn = document.createElement('button');
+			restoreBtn.textContent = 'Restore';
+			restoreBtn.onclick = async () => {
+				if (await this.plugin.actionHandler.handleRestoreOutputVersion(this.outputNodeId, index, this.canvasFile)) {
+					await this.render();
+				}
+			};
+
+			row.querySelector('.living-canvas-history-actions')?.append(diffBtn, restoreBtn);
+			this.content.appendChild(row);
+		});
+
+		this.content.appendChild(preview);
+		this.content.appendChild(this.createCloseButton());
+	}
+
+	private createRow(label: string, version: OutputVersion, preview: HTMLElement): HTMLElement {
+		const row = document.createElement('div');
+		row.style.cssText = `
+			display: flex;
+			align-items: center;
+			gap: 8px;
+			padding: 6px 0;
+			border-bottom: 1px solid var(--background-modifier-border);
+		`;
+
+		const info = document.createElement('div');
+		info.style.flex = '1';
+		info.style.minWidth = '0';
+		const heading = document.createElement('div');
+		heading.textContent = version.createdAt ? `${label} · ${new Date(version.createdAt).toLocaleString()}` : label;
+		heading.style.fontWeight = 'bold';
+		const firstLine = document.createElement('div');
+		firstLine.textContent = version.text.split('\n').find(line => line.trim()) || '(empty)';
+		firstLine.style.cssText = 'color: var(--text-muted); font-size: 0.85em; overflow: hidden; text-overflow: ellipsis; white-space: nowrap;';
+		info.append(heading, firstLine);
+
+		const actions = document.createElement('div');
+		actions.className = 'living-canvas-history-actions';
+		actions.style.display = 'flex';
+		actions.style.gap = '4px';
+
+		const viewBtn = document.createElement('button');
+		viewBtn.textContent = 'View';
+		viewBtn.onclick = () => {
+			preview.empty();
+			preview.textContent = version.text;
+		};
+
+		const copyBtn = document.createElement('button');
+		copyBtn.textContent = 'Copy to new node';
+		copyBtn.onclick = () => this.plugin.actionHandler.handleCopyOutputVersion(this.outputNodeId, version.text, this.canvasFile);
+
+		actions.append(viewBtn, copyBtn);
+		row.append(info, actions);
+		return row;
+	}
+
+	// Lines only in the older version are red, lines only in the current one green
+	private showDiff(preview: HTMLElement, before: string, after: string): void {
+		preview.empty();
+		for (const line of diffLines(before, after)) {
+			const lineEl = document.createElement('div');
+			if (line.type === 'added') {
+				lineEl.textContent = `+ ${line.text}`;
+				lineEl.style.color = 'var(--color-green)';
+			} else if (line.type === 'removed') {
+				lineEl.textContent = `- ${line.text}`;
+				lineEl.style.color = 'var(--color-red)';
+			} else {
+				lineEl.textContent = `  ${line.text}`;
+			}
+			preview.appendChild(lineEl);
+		}
+	}
+
+	private createCloseButton(): HTMLElement {
+		const closeBtn = document.createElement('button');
+		closeBtn.textContent = 'Close';
+		closeBtn.style.marginTop = '12px';
+		closeBtn.onclick = () => this.close();
+		return closeBtn;
+	}
+
+	private close(): void {
+		if (this.modalEl && this.modalEl.parentNode) {
+			this.modalEl.parentNode.removeChild(this.modalEl);
+		}
+	}
+}
+
+// Shows how an output node was generated, with actions to find its block, re-run it or export it
+class ProvenanceView {
+	private plugin: LivingCanvasPlugin;
+	private outputNodeId: string;
+	private canvasFile: TFile;
+	private modalEl: HTMLElement;
+	private content: HTMLElement;
+
+	constructor(plugin: LivingCanvasPlugin, outputNodeId: string, canvasFile: TFile) {
+		this.plugin = plugin;
+		this.outputNodeId = outputNodeId;
+		this.canvasFile = canvasFile;
+	}
+
+	open(): void {
+		this.modalEl = document.createElement('div');
+		this.modalEl.className = 'modal';
+		this.modalEl.style.cssText = `
+			position: fixed;
+			top: 0;
+			left: 0;
+			width: 100%;
+			height: 100%;
+			background: rgba(0, 0, 0, 0.5);
+			display: flex;
+			align-items: center;
+			justify-content: center;
+			z-index: 1000;
+		`;
+
+		this.content = document.createElement('div');
+		this.content.style.cssText = `
+			background: var(--background-primary);
+			padding: 20px;
+			border-radius: 8px;
+			min-width: 480px;
+			max-width: 760px;
+			max-height: 80vh;
+			overflow-y: auto;
+		`;
+
+		this.modalEl.appendChild(this.content);
+		document.body.appendChild(this.modalEl);
+
+		this.modalEl.onclick = (e) => {
+			if (e.target === this.modalEl) this.close();
+		};
+
+		this.render();
+	}
+
+	private async render(): Promise<void> {
+		this.content.empty();
+
+		const title = document.createElement('h3');
+		title.textContent = 'Output Provenance';
+		title.style.marginTop = '0';
+		this.content.appendChild(title);
+
+		const node = await this.plugin.canvasManager.getNode(this.outputNodeId, this.canvasFile);
+		const provenance = node?.livingCanvasOutput?.provenance;
+		if (!provenance) {
+			const missing = document.createElement('p');
+			missing.textContent = node?.livingCanvasOutput
+				? 'No provenance was recorded for this output. Outputs generated before provenance was added, or by a failed run, have none; re-running the block records it.'
+				: 'This output node no longer exists.';
+			this.content.appendChild(missing);
+			this.content.appendChild(this.createButtons(false));
+			return;
+		}
+
+		const table = document.createElement('table');
+		table.style.cssText = 'width: 100%; border-collapse: collapse; font-size: 0.9em;';
+		for (const [label, value] of describeProvenance(provenance)) {
+			const row = table.insertRow();
+			const labelCell = row.insertCell();
+			labelCell.textContent = label;
+			labelCell.style.cssText = 'font-weight: bold; vertical-align: top; padding: 4px 12px 4px 0; white-space: nowrap;';
+			const valueCell = row.insertCell();
+			valueCell.textContent = value;
+			valueCell.style.cssText = 'white-space: pre-wrap; word-break: break-all; padding: 4px 0;';
+		}
+		this.content.appendChild(table);
+
+		const block = await this.plugin.canvasManager.getNode(provenance.blockNodeId, this.canvasFile);
+		if (block?.livingCanvas?.inputHash && block.livingCanvas.inputHash !== provenance.inputHash) {
+			const note = document.createElement('p');
+			note.textContent = 'The block\'s inputs or settings have changed since this output was generated.';
+			note.style.color = 'var(--text-muted)';
+			this.content.appendChild(note);
+		}
+
+		this.content.appendChild(this.createButtons(!!block?.livingCanvas));
+	}
+
+	private createButtons(hasBlock: boolean): HTMLElement {
+		const buttons = document.createElement('div');
+		buttons.style.cssText = 'display: flex; gap: 8px; margin-top: 12px;';
+
+		if (hasBlock) {
+			const jumpBtn = document.createElement('button');
+			jumpBtn.textContent = 'Jump to source block';
+			jumpBtn.onclick = async () => {
+				const provenance = (await this.plugin.canvasManager.getNode(this.outputNodeId, this.canvasFile))?.livingCanvasOutput?.provenance;
+				if (provenance && this.plugin.canvasManager.revealNode(provenance.blockNodeId, this.canvasFile)) {
+					this.close();
+				} else {
+					new Notice('Open the canvas to jump to the block');
+				}
+			};
+
+			const rerunBtn = document.createElement('button');
+			rerunBtn.textContent = 'Re-run with same settings';
+			rerunBtn.onclick = () => {
+				this.close();
+				this.plugin.actionHandler.handleRerunFromProvenance(this.outputNodeId, this.canvasFile);
+			};
+			buttons.append(jumpBtn, rerunBtn);
+		}
+
+		const exportBtn = document.createElement('button');
+		exportBtn.textContent = 'Export to note';
+		exportBtn.onclick = () => this.plugin.actionHandler.handleExportOutput(this.outputNodeId, this.canvasFile);
+
+		const closeBtn = document.createElement('button');
+		closeBtn.textContent = 'Close';
+		closeBtn.onclick = () => this.close();
+
+		buttons.append(exportBtn, closeBtn);
+		return buttons;
+	}
+
+	private close(): void {
+		if (this.modalEl && this.modalEl.parentNode) {
+			this.modalEl.parentNode.removeChild(this.modalEl);
+		}
+	}
+}
+
+// Runs block tests and lists each case with its failures; mismatched text is shown as a diff
+class BlockTestView {
+	private plugin: LivingCanvasPlugin;
+	private blocks: BlockDefinition[];
+	private modalEl: HTMLElement;
+	private content: HTMLElement;
+
+	constructor(plugin: LivingCanvasPlugin, blocks: BlockDefinition[]) {
+		this.plugin = plugin;
+		this.blocks = blocks;
+	}
+
+	open(): void {
+		this.modalEl = document.createElement('div');
+		this.modalEl.className = 'modal';
+		this.modalEl.style.cssText = `
+			position: fixed;
+			top: 0;
+			left: 0;
+			width: 100%;
+			height: 100%;
+			background: rgba(0, 0, 0, 0.5);
+			display: flex;
+			align-items: center;
+			justify-content: center;
+			z-index: 1000;
+		`;
+
+		this.content = document.createElement('div');
+		this.content.style.cssText = `
+			background: var(--background-primary);
+			padding: 20px;
+			border-radius: 8px;
+			min-width: 520px;
+			max-width: 800px;
+			max-height: 80vh;
+			overflow-y: auto;
+		`;
+
+		this.modalEl.appendChild(this.content);
+		document.body.appendChild(this.modalEl);
+
+		this.modalEl.onclick = (e) => {
+			if (e.target === this.modalEl) this.close();
+		};
+
+		this.run();
+	}
+
+	private async run(): Promise<void> {
+		this.content.empty();
+		const title = document.createElement('h3');
+		title.textContent = 'Block Tests';
+		title.style.marginTop = '0';
+		const status = document.createElement('p');
+		status.textContent = 'Running tests…';
+		status.style.color = 'var(--text-muted)';
+		this.content.append(title, status);
+
+		const reports: BlockTestReport[] = [];
+		for (const block of this.blocks) {
+			reports.push(await this.plugin.blockTester.testBlock(block));
+		}
+
+		const results = reports.flatMap(report => report.results);
+		const passed = results.filter(result => result.passed).length;
+		const broken = reports.filter(report => report.error).length;
+		status.textContent = `${passed} of ${results.length} passed` + (broken > 0 ? `, ${broken} test file(s) couldn't be read` : '');
+		status.style.color = passed === results.length && broken === 0 ? 'var(--color-green)' : 'var(--color-red)';
+
+		for (const report of reports) {
+			this.content.appendChild(this.renderReport(report));
+		}
+		this.content.appendChild(this.createButtons());
+	}
+
+	private renderReport(report: BlockTestReport): HTMLElement {
+		const section = document.createElement('div');
+		section.style.marginBottom = '16px';
+
+		const heading = document.createElement('h4');
+		const passed = report.results.filter(result => result.passed).length;
+		heading.textContent = `${report.blockName} — ${report.error ? 'tests not run' : `${passed} of ${report.results.length} passed`}`;
+		heading.style.marginBottom = '8px';
+		section.appendChild(heading);
+
+		if (report.error) {
+			const error = document.createElement('div');
+			error.textContent = report.error;
+			error.style.color = 'var(--color-red)';
+			section.appendChild(error);
+			return section;
+		}
+
+		for (const result of report.results) {
+			section.appendChild(this.renderResult(result));
+		}
+		return section;
+	}
+
+	private renderResult(result: BlockTestResult): HTMLElement {
+		const item = document.createElement('div');
+		item.style.cssText = 'padding: 6px 0; border-top: 1px solid var(--background-modifier-border);';
+
+		const line = document.createElement('div');
+		line.textContent = `${result.passed ? '✓' : '✗'} ${result.name} (${result.durationMs} ms)`;
+		line.style.color = result.passed ? 'var(--color-green)' : 'var(--color-red)';
+		item.appendChild(line);
+
+		for (const failure of result.failures) {
+			const message = document.createElement('div');
+			message.textContent = failure.message;
+			message.style.cssText = 'margin-left: 16px; font-size: 0.9em;';
+			item.appendChild(message);
+			if (failure.expected !== undefined && failure.actual !== undefined) {
+				item.appendChild(this.renderDiff(failure.expected, failure.actual));
+			}
+		}
+
+		// What the block sent and got back, for working out why a case fails
+		if (!result.passed) {
+			if (result.prompt !== undefined) item.appendChild(this.renderDetails('Prompt', result.prompt));
+			if (result.output !== undefined) item.appendChild(this.renderDetails('Output', result.output));
+		}
+		return item;
+	}
+
+	// Lines only expected are red, lines only in the actual text green
+	private renderDiff(expected: string, actual: string): HTMLElement {
+		const preview = document.createElement('div');
+		preview.style.cssText = 'margin: 4px 0 4px 16px; font-family: var(--font-monospace); font-size: 0.85em; white-space: pre-wrap;';
+		for (const line of diffLines(expected, actual)) {
+			const lineEl = document.createElement('div');
+			if (line.type === 'added') {
+				lineEl.textContent = `+ ${line.text}`;
+				lineEl.style.color = 'var(--color-green)';
+			} else if (line.type === 'removed') {
+				lineEl.textContent = `- ${line.text}`;
+				lineEl.style.color = 'var(--color-red)';
+			} else {
+				lineEl.textContent = `  ${line.text}`;
+			}
+			preview.appendChild(lineEl);
+		}
+		return preview;
+	}
+
+	private renderDetails(label: string, text: string): HTMLElement {
+		const details = document.createElement('details');
+		details.style.cssText = 'margin-left: 16px; font-size: 0.85em;';
+		const summary = document.createElement('summary');
+		summary.textContent = label;
+		const body = document.createElement('pre');
+		body.textContent = text;
+		body.style.cssText = 'white-space: pre-wrap; margin: 4px 0;';
+		details.append(summary, body);
+		return details;
+	}
+
+	private createButtons(): HTMLElement {
+		const buttons = document.createElement('div');
+		buttons.style.cssText = 'display: flex; gap: 8px; margin-top: 12px;';
+
+		const rerunBtn = document.createElement('button');
+		rerunBtn.textContent = 'Run again';
+		rerunBtn.onclick = () => this.run();
+
+		const closeBtn = document.createElement('button');
+		closeBtn.textContent = 'Close';
+		closeBtn.onclick = () => this.close();
+
+		buttons.append(rerunBtn, closeBtn);
+		return buttons;
+	}
+
+	private close(): void {
+		if (this.modalEl && this.modalEl.parentNode) {
+			this.modalEl.parentNode.removeChild(this.modalEl);
+		}
+	}
+}
+
+// Asks whether a block may use the permissions it declares; resolves null if dismissed
+class PermissionRequestModal {
+	private block: BlockDefinition;
+	private permissions: BlockPermission[];
+	// The executor changed since the user last reviewed it
+	private changed: boolean;
+	private onDecide: (approved: boolean | null) => void;
+	private modalEl: HTMLElement;
+
+	constructor(block: BlockDefinition, permissions: BlockPermission[], changed: boolean, onDecide: (approved: boolean | null) => void) {
+		this.block = block;
+		this.permissions = permissions;
+		this.changed = changed;
+		this.onDecide = onDecide;
+	}
+
+	open(): void {
+		this.modalEl = document.createElement('div');
+		this.modalEl.className = 'modal';
+		this.modalEl.style.cssText = `
+			position: fixed;
+			top: 0;
+			left: 0;
+			width: 100%;
+			height: 100%;
+			background: rgba(0, 0, 0, 0.5);
+			display: flex;
+			align-items: center;
+			justify-content: center;
+			z-index: 1000;
+		`;
+
+		const content = document.createElement('div');
+		content.style.cssText = `
+			background: var(--background-primary);
+			padding: 20px;
+			border-radius: 8px;
+			min-width: 420px;
+			max-width: 560px;
+		`;
+
+		const title = document.createElement('h3');
+		title.textContent = 'Approve Block Permissions';
+		title.style.marginTop = '0';
+
+		const intro = document.createElement('p');
+		intro.textContent = this.changed
+			? `${this.block.name} (${this.block.id}) by ${this.block.author} has changed since you reviewed it. It asks to:`
+			: `${this.block.name} (${this.block.id}) by ${this.block.author} asks to:`;
+
+		const list = document.createElement('ul');
+		for (const permission of this.permissions) {
+			const item = document.createElement('li');
+			item.textContent = BLOCK_PERMISSIONS[permission];
+			list.appendChild(item);
+		}
+
+		const note = document.createElement('p');
+		note.textContent = 'If you decline, the block still runs but these requests fail. You can change this later under Block Permissions in the settings.';
+		note.style.cssText = 'color: var(--text-muted); font-size: 0.9em;';
+
+		const buttons = document.createElement('div');
+		buttons.style.cssText = 'display: flex; gap: 8px; justify-content: flex-end;';
+
+		const declineBtn = document.createElement('button');
+		declineBtn.textContent = 'Decline';
+		declineBtn.onclick = () => this.decide(false);
+
+		const approveBtn = document.createElement('button');
+		approveBtn.textContent = 'Approve';
+		approveBtn.className = 'mod-cta';
+		approveBtn.onclick = () => this.decide(true);
+
+		buttons.append(declineBtn, approveBtn);
+		content.append(title, intro, list, note, buttons);
+		this.modalEl.appendChild(content);
+		document.body.appendChild(this.modalEl);
+
+		this.modalEl.onclick = (e) => {
+			if (e.target === this.modalEl) this.decide(null);
+		};
+	}
+
+	private decide(approved: boolean | null): void {
+		if (this.modalEl && this.modalEl.parentNode) {
+			this.modalEl.parentNode.removeChild(this.modalEl);
+		}
+		this.onDecide(approved);
+	}
+}
+
+// Block Configuration View
+class BlockConfigView {
+	private app: App;
+	private plugin: LivingCanvasPlugin;
+	private node: CanvasNode;
+	private blockDefinition: BlockDefinition;
+	private modalEl: HTMLElement;
+	private viewEl: HTMLElement;
+
+	constructor(app: App, plugin: LivingCanvasPlugin, node: CanvasNode, blockDefinition: BlockDefinition) {
+		this.app = app;
+		this.plugin = plugin;
+		this.node = node;
+		this.blockDefinition = blockDefinition;
+	}
+
+	open(): void {
+		// Create overlay modal
+		this.modalEl = document.createElement('div');
+		this.modalEl.className = 'modal';
+		this.modalEl.style.cssText = `
+			position: fixed;
+			top: 0;
+			left: 0;
+			width: 100%;
+			height: 100%;
+			background: rgba(0, 0, 0, 0.5);
+			display: flex;
+			align-items: center;
+			justify-content: center;
+			z-index: 1000;
+		`;
+
+		// Modal content
+		this.viewEl = document.createElement('div');
+		this.viewEl.className = 'living-canvas-config-view';
+		this.viewEl.style.cssText = `
+			padding: 20px;
+			min-width: 520px;
+			max-width: 720px;
+			max-height: 80vh;
+			overflow-y: auto;
+			background: var(--background-primary);
+			border-radius: 8px;
+		`;
+
+		const title = document.createElement('h3');
+		title.textContent = `Configure ${this.blockDefinition.name}`;
+		title.style.marginTop = '0';
+
+		const form = document.createElement('form');
+		form.style.cssText = `
+			display: flex;
+			flex-direction: column;
+			gap: 16px;
+		`;
+
+		// Declared inputs, with a warning for any that no labelled edge feeds
+		if (this.blockDefinition.inputs && this.blockDefinition.inputs.length > 0) {
+			const inputsHeader = document.createElement('h4');
+			inputsHeader.textContent = 'Inputs';
+			inputsHeader.style.margin = '0';
+			form.appendChild(inputsHeader);
+
+			const inputsList = document.createElement('div');
+			inputsList.style.cssText = `
+				display: flex;
+				flex-direction: column;
+				gap: 4px;
+			`;
+			form.appendChild(inputsList);
+			this.renderInputs(inputsList);
+		}
+
+		// Create form fields based on block settings
+		for (const setting of this.blockDefinition.settings) {
+			form.appendChild(this.createField(setting));
+		}
+
+		// Generation fields apply to every block type; a block setting of the same name takes precedence
+		const generationSettings = GENERATION_SETTINGS.filter(
+			setting => !this.blockDefinition.settings.some(s => s.name === setting.name)
+		);
+		if (generationSettings.length > 0) {
+			const generationHeader = document.createElement('h4');
+			generationHeader.textContent = 'Generation';
+			generationHeader.style.margin = '8px 0 0 0';
+			form.appendChild(generationHeader);
+
+			for (const setting of generationSettings) {
+				form.appendChild(this.createField(
+					setting.name === 'model' ? { ...setting, options: this.getModelOptions() } : setting
+				));
+			}
+		}
+
+		const runHeader = document.createElement('h4');
+		runHeader.textContent = 'Run options';
+		runHeader.style.margin = '8px 0 0 0';
+		form.appendChild(runHeader);
+
+		for (const setting of RUN_SETTINGS) {
+			form.appendChild(this.createField(setting));
+		}
+
+		const buttonContainer = document.createElement('div');
+		buttonContainer.style.cssText = `
+			display: flex;
+			gap: 8px;
 			margin-top: 20px;
 		`;
 
@@ -942,6 +2093,144 @@ class BlockConfigView {
 		};
 	}
 
+	// The block's named inputs, marking those not connected on the canvas
+	private async renderInputs(container: HTMLElement): Promise<void> {
+		const inputs = this.blockDefinition.inputs || [];
+		const canvasFile = this.plugin.getCurrentCanvasFile();
+		const connected = canvasFile
+			? await this.plugin.sourceResolver.getConnectedPorts(this.node.id, canvasFile, inputs.map(input => input.name))
+			: [];
+
+		for (const input of inputs) {
+			const row = document.createElement('div');
+			row.style.fontSize = '0.9em';
+
+			const name = document.createElement('strong');
+			name.textContent = input.required ? `${input.name} *` : input.name;
+			row.appendChild(name);
+
+			if (input.description) {
+				const description = document.createElement('span');
+				description.textContent = ` — ${input.description}`;
+				description.style.color = 'var(--text-muted)';
+				row.appendChild(description);
+			}
+
+			const status = document.createElement('div');
+			if (connected.includes(input.name)) {
+				status.textContent = '✓ Connected';
+				status.style.color = 'var(--text-success)';
+			} else {
+				status.textContent = `⚠ Not connected. Label an incoming edge "${input.name}" to feed this input.`;
+				status.style.color = input.required ? 'var(--text-error)' : 'var(--text-warning)';
+			}
+			row.appendChild(status);
+
+			container.appendChild(row);
+		}
+
+		// Labelled edges the block doesn't declare are still passed to the executor
+		const undeclared = connected.filter(port => !inputs.some(input => input.name === port));
+		if (undeclared.length > 0) {
+			const note = document.createElement('div');
+			note.textContent = `Other labelled inputs: ${undeclared.join(', ')}`;
+			note.style.cssText = `
+				font-size: 0.9em;
+				color: var(--text-muted);
+			`;
+			container.appendChild(note);
+		}
+	}
+
+	// Models from the configured providers; the empty option inherits the block or plugin default
+	private getModelOptions(): { [key: string]: string } {
+		const fallback = this.blockDefinition.generation?.model || this.plugin.settings.defaultModel;
+		const options: { [key: string]: string } = { '': `Default (${fallback})` };
+		for (const model of this.plugin.providerRegistry.listModels()) {
+			options[model.ref] = model.label;
+		}
+
+		const current = this.node.livingCanvas?.config.model;
+		if (typeof current === 'string' && current && !(current in options)) {
+			options[current] = current;
+		}
+		return options;
+	}
+
+	private createField(setting: BlockSetting): HTMLElement {
+		const fieldContainer = document.createElement('div');
+		
+		const label = document.createElement('label');
+		label.textContent = setting.description;
+		label.style.display = 'block';
+		label.style.marginBottom = '4px';
+		label.style.fontWeight = '500';
+
+		let input: HTMLElement;
+
+		switch (setting.type) {
+			case 'text':
+				input = document.createElement('input');
+				(input as HTMLInputElement).type = 'text';
+				(input as HTMLInputElement).value = this.node.livingCanvas?.config[setting.name] || setting.default || '';
+				break;
+
+			case 'textarea': {
+				// List values (e.g. stop sequences) are edited one per line
+				const value = this.node.livingCanvas?.config[setting.name];
+				input = document.createElement('textarea');
+				(input as HTMLTextAreaElement).value = Array.isArray(value) ? value.join('\n') : value || setting.default || '';
+				(input as HTMLTextAreaElement).rows = 4;
+				break;
+			}
+
+			case 'dropdown':
+				input = document.createElement('select');
+				for (const [value, label] of Object.entries(setting.options || {})) {
+					const option = document.createElement('option');
+					option.value = value;
+					option.textContent = label;
+					(input as HTMLSelectElement).appendChild(option);
+				}
+				(input as HTMLSelectElement).value = this.node.livingCanvas?.config[setting.name] || setting.default || '';
+				break;
+
+			case 'number':
+				input = document.createElement('input');
+				(input as HTMLInputElement).type = 'number';
+				(input as HTMLInputElement).value = this.node.livingCanvas?.config[setting.name] || setting.default || '';
+				break;
+
+			case 'boolean':
+				input = document.createElement('input');
+				(input as HTMLInputElement).type = 'checkbox';
+				(input as HTMLInputElement).checked = this.node.livingCanvas?.config[setting.name] ?? setting.default ?? false;
+				break;
+
+			default:
+				input = document.createElement('input');
+				(input as HTMLInputElement).type = 'text';
+		}
+
+		// Set a stable name attribute for saving
+		if ((input as HTMLElement).setAttribute) {
+			(input as HTMLElement).setAttribute('name', setting.name);
+		}
+
+		input.style.cssText = `
+			width: 100%;
+			padding: 8px;
+			border: 1px solid var(--background-modifier-border);
+			border-radius: 4px;
+			background: var(--background-primary);
+			color: var(--text-normal);
+		`;
+
+		fieldContainer.appendChild(label);
+		fieldContainer.appendChild(input);
+		return fieldContainer;
+	}
+
 	private async saveConfiguration(form: HTMLFormElement): Promise<void> {
 		const config: Record<string, unknown> = {};
 		const inputs = form.querySelectorAll('input, textarea, select');
@@ -951,8 +2240,16 @@ class BlockConfigView {
 			const name = element.getAttribute('name') || (element.previousElementSibling as HTMLElement)?.innerText?.toLowerCase().replace(/\s+/g, '_');
 			
 			if (name) {
+				const isGenerationField = GENERATION_SETTINGS.some(setting => setting.name === name);
 				if (element.type === 'checkbox') {
 					config[name] = (element as HTMLInputElement).checked;
+				} else if (isGenerationField && element.value.trim() === '') {
+					// Leave empty generation fields unset so the block default applies
+					continue;
+				} else if (element.type === 'number') {
+					config[name] = element.value === '' ? '' : Number(element.value);
+				} else if (name === 'stop') {
+					config[name] = element.value.split('\n').filter(line => line.length > 0);
 				} else {
 					config[name] = element.value;
 				}
@@ -962,12 +2259,7 @@ class BlockConfigView {
 		// Update the node configuration
 		const canvasFile = this.plugin.getCurrentCanvasFile();
 		if (canvasFile && this.node.livingCanvas) {
-			await this.plugin.canvasManager.updateNodeData(this.node.id, {
-				livingCanvas: {
-					...this.node.livingCanvas,
-					config: config
-				}
-			}, canvasFile);
+			await this.plugin.canvasManager.updateLivingCanvas(this.node.id, { config: config }, canvasFile);
 
 			new Notice('Configuration saved successfully');
 			this.cleanup();
@@ -0,0 +1,167 @@
+import { LivingCanvasPlugin } from '../main';
+import { TokenUsage } from './providers/AIProvider';
+
+// Price per million tokens, in USD
+export interface ModelPrice {
+	input: number;
+	output: number;
+}
+
+export interface UsageRecord {
+	timestamp: number;
+	canvasPath: string;
+	nodeId: string;
+	blockType: string;
+	model: string;
+	inputTokens: number;
+	outputTokens: number;
+	cost: number;
+	// Served from the response cache, so no tokens were billed
+	cached: boolean;
+}
+
+export interface UsageSummary {
+	key: string;
+	runs: number;
+	inputTokens: number;
+	outputTokens: number;
+	cost: number;
+}
+
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+	'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+	'gpt-4': { input: 30, output: 60 },
+	'claude-3-sonnet': { input: 3, output: 15 },
+	'claude-3-haiku': { input: 0.25, output: 1.25 }
+};
+
+// Append-only record of every model call, kept in the plugin's data folder
+export class UsageLedger {
+	private plugin: LivingCanvasPlugin;
+	private records: UsageRecord[] = [];
+	private loaded = false;
+	// Writes are chained so concurrent runs don't overwrite each other's records
+	private pending: Promise<unknown> = Promise.resolve();
+
+	constructor(plugin: LivingCanvasPlugin) {
+		this.plugin = plugin;
+	}
+
+	private get path(): string {
+		return `${this.plugin.getDataDirectory()}/usage.json`;
+	}
+
+	async initialize(): Promise<void> {
+		this.plugin.debug('Initializing UsageLedger');
+		await this.load();
+	}
+
+	async record(entry: Omit<UsageRecord, 'timestamp' | 'cost'>): Promise<void> {
+		await this.load();
+		const record: UsageRecord = {
+			...entry,
+			timestamp: Date.now(),
+			cost: entry.cached ? 0 : this.estimateCost(entry.model, entry)
+		};
+		this.records.push(record);
+		this.pending = this.pending.then(() => this.save());
+		await this.pending;
+	}
+
+	getRecords(): UsageRecord[] {
+		return [...this.records];
+	}
+
+	// Look up a price by full model reference first, then by bare model name
+	getPrice(model: string): ModelPrice | undefined {
+		const prices = this.plugin.settings.modelPrices;
+		if (prices[model]) return prices[model];
+		const bare = model.includes(':') ? model.slice(model.indexOf(':') + 1) : model;
+		return prices[bare];
+	}
+
+	estimateCost(model: string, usage: TokenUsage): number {
+		const price = this.getPrice(model);
+		if (!price) return 0;
+		return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+	}
+
+	summarizeByDay(): UsageSummary[] {
+		return this.summarize(record => new Date(record.timestamp).toISOString().slice(0, 10));
+	}
+
+	summarizeByCanvas(): UsageSummary[] {
+		return this.summarize(record => record.canvasPath || '(no canvas)');
+	}
+
+	summarizeByNode(): UsageSummary[] {
+		return this.summarize(record => `${record.canvasPath || '(no canvas)'} › ${record.nodeId || '-'} (${record.blockType})`);
+	}
+
+	getTotals(): UsageSummary {
+		return this.summarize(() => 'Total')[0] || { key: 'Total', runs: 0, inputTokens: 0, outputTokens: 0, cost: 0 };
+	}
+
+	toCSV(): string {
+		const header = ['timestamp', 'canvas', 'node', 'block', 'model', 'input_tokens', 'output_tokens', 'cost_usd', 'cached'];
+		const rows = this.records.map(record => [
+			new Date(record.timestamp).toISOString(),
+			record.canvasPath,
+			record.nodeId,
+			record.blockType,
+			record.model,
+			String(record.inputTokens),
+			String(record.outputTokens),
+			record.cost.toFixed(6),
+			String(record.cached)
+		]);
+		return [header, ...rows]
+			.map(row => row.map(cell => this.escapeCSV(cell)).join(','))
+			.join('\n') + '\n';
+	}
+
+	async clear(): Promise<void> {
+		this.records = [];
+		this.pending = this.pending.then(() => this.save());
+		await this.pending;
+	}
+
+	private summarize(keyOf: (record: UsageRecord) => string): UsageSummary[] {
+		const groups = new Map<string, UsageSummary>();
+		for (const record of this.records) {
+			const key = keyOf(record);
+			const summary = groups.get(key) || { key, runs: 0, inputTokens: 0, outputTokens: 0, cost: 0 };
+			summary.runs++;
+			summary.inputTokens += record.inputTokens;
+			summary.outputTokens += record.outputTokens;
+			summary.cost += record.cost;
+			groups.set(key, summary);
+		}
+		return Array.from(groups.values()).sort((a, b) => a.key.localeCompare(b.key));
+	}
+
+	private escapeCSV(value: string): string {
+		return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+	}
+
+	private async load(): Promise<void> {
+		if (this.loaded) return;
+		this.loaded = true;
+		try {
+			if (await this.plugin.host.storage.exists(this.path)) {
+				this.records = JSON.parse(await this.plugin.host.storage.read(this.path));
+			}
+		} catch (error) {
+			console.error('Error reading usage ledger:', error);
+			this.records = [];
+		}
+	}
+
+	private async save(): Promise<void> {
+		try {
+			await this.plugin.host.storage.write(this.path, JSON.stringify(this.records));
+		} catch (error) {
+			console.error('Error writing usage ledger:', error);
+		}
+	}
+}
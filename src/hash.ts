@@ -0,0 +1,27 @@
+// JSON with object keys sorted, so equal values always serialize the same way
+export function stableStringify(value: unknown): string {
+	if (Array.isArray(value)) {
+		return `[${value.map(item => stableStringify(item === undefined ? null : item)).join(',')}]`;
+	}
+	if (value && typeof value === 'object') {
+		const entries = Object.keys(value as Record<string, unknown>)
+			.filter(key => (value as Record<string, unknown>)[key] !== undefined)
+			.sort()
+			.map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+		return `{${entries.join(',')}}`;
+	}
+	return JSON.stringify(value);
+}
+
+// Hex-encoded SHA-256 of a string
+export async function sha256(text: string): Promise<string> {
+	const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+	return Array.from(new Uint8Array(digest))
+		.map(byte => byte.toString(16).padStart(2, '0'))
+		.join('');
+}
+
+// Hash of any JSON-serializable value, independent of key order
+export async function hashValue(value: unknown): Promise<string> {
+	return sha256(stableStringify(value));
+}
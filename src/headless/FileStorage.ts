@@ -0,0 +1,60 @@
+import { promises as fs } from 'fs';
+import * as nodePath from 'path';
+import { StorageHost } from '../host/Host';
+
+// A folder on disk used as the vault. Relative paths are resolved against it; absolute paths are
+// used as they are.
+export class FileStorage implements StorageHost {
+	private root: string;
+
+	constructor(root: string) {
+		this.root = nodePath.resolve(root);
+	}
+
+	read(path: string): Promise<string> {
+		return fs.readFile(this.resolve(path), 'utf8');
+	}
+
+	async write(path: string, content: string): Promise<void> {
+		const target = this.resolve(path);
+		await fs.mkdir(nodePath.dirname(target), { recursive: true });
+		await fs.writeFile(target, content, 'utf8');
+	}
+
+	async exists(path: string): Promise<boolean> {
+		try {
+			await fs.stat(this.resolve(path));
+			return true;
+		} catch {
+			return false;
+		}
+	}
+
+	// Entries keep the folder's path as given, like Obsidian's adapter
+	async list(path: string): Promise<{ files: string[]; folders: string[] }> {
+		const prefix = path && path !== '/' ? `${path.replace(/\/$/, '')}/` : '';
+		const entries = await fs.readdir(this.resolve(path), { withFileTypes: true });
+		return {
+			files: entries.filter(entry => entry.isFile()).map(entry => prefix + entry.name),
+			folders: entries.filter(entry => entry.isDirectory()).map(entry => prefix + entry.name)
+		};
+	}
+
+	async mkdir(path: string): Promise<void> {
+		await fs.mkdir(this.resolve(path), { recursive: true });
+	}
+
+	async remove(path: string): Promise<void> {
+		await fs.rm(this.resolve(path), { force: true });
+	}
+
+	async process(path: string, fn: (content: string) => string): Promise<string> {
+		const content = fn(await this.read(path));
+		await this.write(path, content);
+		return content;
+	}
+
+	private resolve(path: string): string {
+		return nodePath.resolve(this.root, path);
+	}
+}
@@ -0,0 +1,68 @@
+import { Worker } from 'worker_threads';
+import { CanvasView, Host, NoteSection, SandboxWorker, StorageHost } from '../host/Host';
+
+// The host outside Obsidian: no views, and notices go to a log function
+export class HeadlessHost implements Host {
+	storage: StorageHost;
+	readonly configDir = '.obsidian';
+	private log: (message: string) => void;
+
+	constructor(storage: StorageHost, log: (message: string) => void = message => console.log(message)) {
+		this.storage = storage;
+		this.log = log;
+	}
+
+	notify(message: string): void {
+		this.log(message);
+	}
+
+	getCanvasViews(): CanvasView[] {
+		return [];
+	}
+
+	// Without Obsidian's metadata cache, find the section in the Markdown itself: a heading runs
+	// until the next heading of the same or a higher level, a block is the paragraph ending in its id
+	findSection(path: string, content: string, subpath: string): NoteSection | null {
+		const target = subpath.split('#').filter(part => part).pop()?.trim();
+		if (!target) return null;
+
+		const lines = content.split('\n');
+		const offsets: number[] = [];
+		lines.reduce((offset, line) => {
+			offsets.push(offset);
+			return offset + line.length + 1;
+		}, 0);
+
+		if (target.startsWith('^')) {
+			const index = lines.findIndex(line => line.trimEnd().endsWith(` ${target}`) || line.trim() === target);
+			if (index === -1) return null;
+			let start = index;
+			while (start > 0 && lines[start - 1].trim()) start--;
+			return { start: offsets[start], end: offsets[index] + lines[index].length };
+		}
+
+		const heading = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+		const index = lines.findIndex(line => heading.exec(line)?.[2] === target);
+		if (index === -1) return null;
+		const level = (heading.exec(lines[index]) as RegExpExecArray)[1].length;
+		const next = lines.findIndex((line, i) => {
+			const match = i > index ? heading.exec(line) : null;
+			return !!match && match[1].length <= level;
+		});
+		return { start: offsets[index], end: next === -1 ? undefined : offsets[next] };
+	}
+
+	// A worker thread. It keeps executors to the ctx API and the time limit, but unlike a web
+	// worker in Obsidian it isn't a security boundary: only run blocks you trust here.
+	createWorker(source: string): SandboxWorker {
+		const worker = new Worker(source, { eval: true });
+		return {
+			postMessage: message => worker.postMessage(message),
+			onMessage: listener => worker.on('message', listener),
+			onError: listener => worker.on('error', listener),
+			terminate: () => {
+				worker.terminate();
+			}
+		};
+	}
+}
@@ -0,0 +1,102 @@
+import { LivingCanvasPlugin } from '../../main';
+import { ActionHandler } from '../ActionHandler';
+import { BatchRunner } from '../BatchRunner';
+import { BlockExecutor } from '../BlockExecutor';
+import { BlockManager } from '../BlockManager';
+import { BlockTester } from '../BlockTester';
+import { CanvasManager } from '../CanvasManager';
+import { DEFAULT_CONTEXT_LIMITS } from '../Chunker';
+import { Host } from '../host/Host';
+import { LayoutService } from '../LayoutService';
+import { PipelineResult, PipelineRunner } from '../PipelineRunner';
+import { ProviderRegistry } from '../ProviderRegistry';
+import { ResponseCache } from '../ResponseCache';
+import { RunManager } from '../RunManager';
+import { DEFAULT_SETTINGS, LivingCanvasSettings } from '../settings';
+import { SourceResolver } from '../SourceResolver';
+import { StaleTracker } from '../StaleTracker';
+import { DEFAULT_MODEL_PRICES, UsageLedger } from '../UsageLedger';
+import { fileAt } from './obsidian';
+
+export interface HeadlessOptions {
+	host: Host;
+	// Merged over the plugin's defaults, like a data.json
+	settings?: Partial<LivingCanvasSettings>;
+	// Folder of block definitions (each with block.json and executor.js)
+	blocksDirectory?: string;
+	// Folder for the response cache, usage ledger and fetched web pages
+	dataDirectory?: string;
+	version?: string;
+}
+
+// Runs canvas blocks outside Obsidian with the plugin's own components. Everything goes through
+// the host, so the vault can be a folder on disk or held in memory.
+export class HeadlessRunner {
+	readonly plugin: LivingCanvasPlugin;
+
+	constructor(options: HeadlessOptions) {
+		const data = options.settings || {};
+		const settings: LivingCanvasSettings = {
+			...DEFAULT_SETTINGS,
+			...data,
+			modelPrices: { ...DEFAULT_MODEL_PRICES, ...data.modelPrices },
+			contextLimits: { ...DEFAULT_CONTEXT_LIMITS, ...data.contextLimits },
+			blockPermissions: { ...data.blockPermissions }
+		};
+		const dataDirectory = options.dataDirectory || '.living-canvas';
+
+		// The components only use these members of the plugin, none of which need Obsidian
+		const plugin = {
+			settings,
+			host: options.host,
+			manifest: { id: 'living-canvas', version: options.version || '0.0.0' },
+			getCurrentCanvasFile: () => null,
+			getDataDirectory: () => dataDirectory,
+			debug: (message: string, ...args: unknown[]) => {
+				if (settings.enableDebugMode) {
+					console.log(`[Living Canvas] ${message}`, ...args);
+				}
+			}
+		} as unknown as LivingCanvasPlugin;
+
+		plugin.providerRegistry = new ProviderRegistry(plugin);
+		plugin.responseCache = new ResponseCache(plugin);
+		plugin.usageLedger = new UsageLedger(plugin);
+		plugin.runManager = new RunManager(plugin);
+		plugin.blockManager = new BlockManager(plugin, options.blocksDirectory);
+		plugin.canvasManager = new CanvasManager(plugin);
+		plugin.sourceResolver = new SourceResolver(plugin);
+		plugin.layoutService = new LayoutService(plugin);
+		plugin.blockExecutor = new BlockExecutor(plugin);
+		plugin.actionHandler = new ActionHandler(plugin);
+		plugin.pipelineRunner = new PipelineRunner(plugin);
+		plugin.batchRunner = new BatchRunner(plugin);
+		plugin.staleTracker = new StaleTracker(plugin);
+		plugin.blockTester = new BlockTester(plugin);
+		this.plugin = plugin;
+	}
+
+	// Load the block definitions, response cache and usage ledger
+	async initialize(): Promise<void> {
+		await this.plugin.blockManager.initialize();
+		await this.plugin.responseCache.initialize();
+		await this.plugin.usageLedger.initialize();
+	}
+
+	// Run the given blocks, or every block, in dependency order. The canvas is updated in place
+	// through the host's storage; null if nothing ran (no blocks, a cycle, or an unreadable canvas).
+	async run(canvasPath: string, blockIds: string[] = []): Promise<PipelineResult | null> {
+		const canvasFile = fileAt(canvasPath);
+		const blocks = await this.plugin.canvasManager.getLivingCanvasNodes(canvasFile);
+		const ids = blockIds.length > 0 ? blockIds : blocks.map(block => block.id);
+		const unknown = ids.filter(id => !blocks.some(block => block.id === id));
+		if (unknown.length > 0) {
+			throw new Error(`Not Living Canvas blocks in ${canvasPath}: ${unknown.join(', ')}`);
+		}
+		return this.plugin.pipelineRunner.runBlocks(ids, canvasFile);
+	}
+
+	cleanup(): void {
+		this.plugin.runManager.cleanup();
+	}
+}
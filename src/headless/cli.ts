@@ -0,0 +1,198 @@
+import { promises as fs } from 'fs';
+import * as nodePath from 'path';
+import { MemoryStorage } from '../host/MemoryStorage';
+import { AuthScheme, ProviderConfig } from '../providers/AIProvider';
+import { DEFAULT_FIXTURE_FOLDER, MOCK_MODES } from '../providers/MockProvider';
+import { LivingCanvasSettings } from '../settings';
+import { FileStorage } from './FileStorage';
+import { HeadlessHost } from './HeadlessHost';
+import { HeadlessRunner } from './HeadlessRunner';
+
+const USAGE = `Usage: node headless.js <file.canvas> [options]
+
+Runs the Living Canvas blocks of a canvas and writes the results back to it.
+
+Options:
+  --vault <dir>           Vault folder that note and block paths are relative to (default: current folder)
+  --blocks <dir>          Blocks folder (default: <vault>/blocks)
+  --block <id>            Run only this block; repeat for several (default: every block)
+  --settings <file>       Plugin settings to use, e.g. .obsidian/plugins/living-canvas/data.json
+  --base-url <url>        Send every request to this endpoint instead of the configured providers,
+                          e.g. a local mock server at http://localhost:8080/v1
+  --provider-type <type>  API spoken at --base-url: openai (default) or anthropic
+  --api-key <key>         Key for --base-url (default: $LIVING_CANVAS_API_KEY; none if unset)
+  --model <ref>           Model for blocks that don't choose one
+  --mock <mode>           Answer every request offline: echo returns the prompt, fixture plays canned
+                          responses, replay plays them and records missing ones from --base-url
+  --fixtures <dir>        Fixture folder for --mock (default: <vault>/Living Canvas Fixtures)
+  --data-dir <dir>        Response cache and usage ledger to read (default: none)
+  --trust-blocks          Approve every permission the blocks declare, e.g. reading notes
+  --out <file>            Write the updated canvas here instead of over the input
+  --debug                 Log what each component does
+`;
+
+// A mistake in the arguments, answered with the usage text
+class UsageError extends Error {}
+
+interface CliOptions {
+	canvas: string;
+	vault: string;
+	blocks?: string;
+	blockIds: string[];
+	settings?: string;
+	baseUrl?: string;
+	providerType: string;
+	apiKey: string;
+	model?: string;
+	mock?: string;
+	fixtures?: string;
+	dataDir?: string;
+	out?: string;
+	trustBlocks: boolean;
+	debug: boolean;
+}
+
+function parseArgs(args: string[]): CliOptions {
+	const options: Partial<CliOptions> = { vault: '.', blockIds: [], providerType: 'openai', apiKey: process.env.LIVING_CANVAS_API_KEY || '', trustBlocks: false, debug: false };
+	const value = (index: number, flag: string) => {
+		const next = args[index + 1];
+		if (next === undefined || next.startsWith('--')) throw new UsageError(`${flag} needs a value`);
+		return next;
+	};
+
+	for (let i = 0; i < args.length; i++) {
+		const arg = args[i];
+		switch (arg) {
+			case '--vault': options.vault = value(i++, arg); break;
+			case '--blocks': options.blocks = value(i++, arg); break;
+			case '--block': options.blockIds?.push(value(i++, arg)); break;
+			case '--settings': options.settings = value(i++, arg); break;
+			case '--base-url': options.baseUrl = value(i++, arg); break;
+			case '--provider-type': options.providerType = value(i++, arg); break;
+			case '--api-key': options.apiKey = value(i++, arg); break;
+			case '--model': options.model = value(i++, arg); break;
+			case '--mock': options.mock = value(i++, arg); break;
+			case '--fixtures': options.fixtures = value(i++, arg); break;
+			case '--data-dir': options.dataDir = value(i++, arg); break;
+			case '--out': options.out = value(i++, arg); break;
+			case '--trust-blocks': options.trustBlocks = true; break;
+			case '--debug': options.debug = true; break;
+			case '--help': case '-h':
+				console.log(USAGE);
+				process.exit(0);
+				break;
+			default:
+				if (arg.startsWith('--') || options.canvas) throw new UsageError(`Unexpected argument: ${arg}`);
+				options.canvas = arg;
+		}
+	}
+	if (!options.canvas) throw new UsageError('No canvas file given');
+	return options as CliOptions;
+}
+
+async function loadSettings(options: CliOptions, fixtureFolder: string): Promise<Partial<LivingCanvasSettings>> {
+	const settings: Partial<LivingCanvasSettings> = options.settings
+		? JSON.parse(await fs.readFile(options.settings, 'utf8'))
+		: {};
+
+	if (options.baseUrl) {
+		const type = options.providerType;
+		if (type !== 'openai' && type !== 'anthropic') throw new UsageError(`Unknown provider type: ${type}`);
+		const authScheme: AuthScheme = !options.apiKey ? 'none' : type === 'anthropic' ? 'x-api-key' : 'bearer';
+		const provider: ProviderConfig = {
+			id: 'cli',
+			name: 'Command line',
+			type,
+			baseUrl: options.baseUrl.replace(/\/$/, ''),
+			apiKey: options.apiKey,
+			authScheme,
+			models: options.model ? [options.model] : []
+		};
+		settings.providers = [provider];
+		settings.defaultModel = `cli:${options.model || 'default'}`;
+	} else if (options.model) {
+		settings.defaultModel = options.model;
+	}
+
+	if (options.mock) {
+		if (!MOCK_MODES.includes(options.mock)) throw new UsageError(`Unknown mock mode: ${options.mock}`);
+		if (options.mock === 'replay' && !options.baseUrl) throw new UsageError('--mock replay needs --base-url to record from');
+		const mock: ProviderConfig = {
+			id: 'mock',
+			name: 'Mock',
+			type: 'mock',
+			baseUrl: '',
+			apiKey: '',
+			authScheme: 'none',
+			models: [...MOCK_MODES],
+			fixtureFolder,
+			recordModel: options.baseUrl ? settings.defaultModel : undefined
+		};
+		settings.providers = [...settings.providers || [], mock];
+		settings.defaultModel = `mock:${options.mock}`;
+	}
+	if (options.debug) settings.enableDebugMode = true;
+	return settings;
+}
+
+async function main(): Promise<number> {
+	const options = parseArgs(process.argv.slice(2));
+	const vault = nodePath.resolve(options.vault);
+	const canvasPath = toVaultPath(vault, options.canvas);
+	const fixtureFolder = options.fixtures ? toVaultPath(vault, options.fixtures) : DEFAULT_FIXTURE_FOLDER;
+
+	// Notes and blocks are read from disk; every write, including the cache and ledger, stays in
+	// memory apart from the canvas and recorded fixtures
+	const disk = new FileStorage(vault);
+	const storage = new MemoryStorage({}, disk);
+	const runner = new HeadlessRunner({
+		host: new HeadlessHost(storage),
+		settings: await loadSettings(options, fixtureFolder),
+		blocksDirectory: options.blocks ? toVaultPath(vault, options.blocks) : undefined,
+		dataDirectory: options.dataDir ? toVaultPath(vault, options.dataDir) : undefined
+	});
+	await runner.initialize();
+	if (options.trustBlocks) {
+		const plugin = runner.plugin;
+		for (const block of plugin.blockManager.getAllBlocks()) {
+			plugin.settings.blockPermissions[block.id] = { granted: [...block.permissions], denied: [], hash: block.executorHash };
+		}
+	}
+
+	const original = await storage.read(canvasPath);
+	const result = await runner.run(canvasPath, options.blockIds);
+	runner.cleanup();
+
+	const updated = await storage.read(canvasPath);
+	const target = options.out ? nodePath.resolve(options.out) : nodePath.resolve(vault, canvasPath);
+	if (updated !== original || options.out) {
+		await fs.writeFile(target, updated, 'utf8');
+		console.log(`Wrote ${target}`);
+	}
+	for (const [path, content] of storage.getChangedFiles()) {
+		if (options.mock === 'replay' && path.startsWith(`${fixtureFolder}/`)) {
+			await disk.write(path, content);
+			console.log(`Recorded ${path}`);
+		}
+	}
+
+	if (!result) return 1;
+	console.log(`Completed: ${result.completed.length}, failed: ${result.failed.length}, skipped: ${result.skipped.length}${result.cancelled ? ', cancelled' : ''}`);
+	return result.failed.length > 0 || result.cancelled ? 1 : 0;
+}
+
+// Paths inside the vault become vault paths; anything else stays absolute
+function toVaultPath(vault: string, path: string): string {
+	const absolute = nodePath.resolve(path);
+	const relative = nodePath.relative(vault, absolute);
+	return relative.startsWith('..') || nodePath.isAbsolute(relative) ? absolute : relative.split(nodePath.sep).join('/');
+}
+
+main().then(
+	code => process.exit(code),
+	error => {
+		console.error(error instanceof Error ? error.message : error);
+		if (error instanceof UsageError) console.error(`\n${USAGE}`);
+		process.exit(2);
+	}
+);
@@ -0,0 +1,92 @@
+import type { TFile as VaultFile } from 'obsidian';
+
+// Stands in for the 'obsidian' module in the headless build (see esbuild.config.mjs), which aliases
+// it here. Only what the core modules use at run time is provided; the plugin's UI isn't bundled.
+
+// The core modules time things with window.setTimeout, as plugins do in Obsidian
+if (typeof window === 'undefined') {
+	(globalThis as { window?: unknown }).window = globalThis;
+}
+
+export class Notice {
+	constructor(message: string) {
+		console.log(message);
+	}
+}
+
+export class TAbstractFile {
+	path = '';
+	name = '';
+}
+
+export class TFile extends TAbstractFile {
+	basename = '';
+	extension = '';
+}
+
+// Only created by the UI, which isn't reachable from the headless entry
+export class Menu {}
+export class Modal {}
+
+// The headless runner's handle for a canvas or note. Typed as Obsidian's TFile, which the core
+// modules take, though only the path and name fields are there.
+export function fileAt(path: string): VaultFile {
+	const file = new TFile();
+	file.path = path;
+	file.name = path.split('/').pop() || path;
+	const dot = file.name.lastIndexOf('.');
+	file.basename = dot > 0 ? file.name.slice(0, dot) : file.name;
+	file.extension = dot > 0 ? file.name.slice(dot + 1) : '';
+	return file as unknown as VaultFile;
+}
+
+export function normalizePath(path: string): string {
+	const normalized = path.replace(/\\/g, '/').replace(/\/+/g, '/').replace(/^\/|\/$/g, '');
+	return normalized || '/';
+}
+
+export function getFrontMatterInfo(content: string): { exists: boolean; frontmatter: string; from: number; to: number; contentStart: number } {
+	const match = /^---\r?\n([\s\S]*?)\r?\n---(\r?\n|$)/.exec(content);
+	if (!match) {
+		return { exists: false, frontmatter: '', from: 0, to: 0, contentStart: 0 };
+	}
+	const from = content.indexOf('\n') + 1;
+	return { exists: true, frontmatter: match[1], from, to: from + match[1].length, contentStart: match[0].length };
+}
+
+// Good enough for the text of a page: scripts, styles and tags removed, block elements on their own lines
+export function htmlToMarkdown(html: string): string {
+	return html
+		.replace(/<(script|style|head)[\s\S]*?<\/\1>/gi, '')
+		.replace(/<br\s*\/?>/gi, '\n')
+		.replace(/<\/(p|div|h[1-6]|li|tr|section|article)>/gi, '\n\n')
+		.replace(/<[^>]+>/g, '')
+		.replace(/&nbsp;/g, ' ')
+		.replace(/&lt;/g, '<')
+		.replace(/&gt;/g, '>')
+		.replace(/&quot;/g, '"')
+		.replace(/&#39;/g, '\'')
+		.replace(/&amp;/g, '&')
+		.replace(/[ \t]+\n/g, '\n')
+		.replace(/\n{3,}/g, '\n\n')
+		.trim();
+}
+
+export async function requestUrl(request: { url: string; method?: string; headers?: Record<string, string>; body?: string } | string): Promise<{ status: number; text: string; headers: Record<string, string> }> {
+	const params = typeof request === 'string' ? { url: request } : request;
+	const response = await fetch(params.url, { method: params.method, headers: params.headers, body: params.body });
+	const text = await response.text();
+	if (!response.ok) {
+		throw new Error(`Request failed, status ${response.status}`);
+	}
+	const headers: Record<string, string> = {};
+	response.headers.forEach((value, key) => headers[key] = value);
+	return { status: response.status, text, headers };
+}
+
+// JSON is valid YAML; used for the frontmatter of exported notes
+export function stringifyYaml(value: unknown): string {
+	return Object.entries(value as Record<string, unknown>)
+		.map(([key, item]) => `${key}: ${JSON.stringify(item)}`)
+		.join('\n') + '\n';
+}
@@ -0,0 +1,55 @@
+import { TFile } from 'obsidian';
+
+// Files the plugin reads and writes: canvases, notes, blocks and its own data. Paths are relative
+// to the vault root with '/' separators, like Obsidian's DataAdapter, whose methods these mirror.
+export interface StorageHost {
+	read(path: string): Promise<string>;
+	write(path: string, content: string): Promise<void>;
+	exists(path: string): Promise<boolean>;
+	// Full paths of the files and folders directly inside a folder
+	list(path: string): Promise<{ files: string[]; folders: string[] }>;
+	mkdir(path: string): Promise<void>;
+	remove(path: string): Promise<void>;
+	// Read, change and write a file with nothing else writing to it in between
+	process(path: string, fn: (content: string) => string): Promise<string>;
+}
+
+// A view showing a canvas file; `canvas` is the Canvas view's in-memory model
+export interface CanvasView {
+	file?: TFile;
+	canvas?: unknown;
+}
+
+// Where a note's heading or block starts and ends, as character offsets
+export interface NoteSection {
+	start: number;
+	end?: number;
+}
+
+// A worker running sandboxed code, and the messages to and from it
+export interface SandboxWorker {
+	postMessage(message: unknown): void;
+	onMessage(listener: (message: unknown) => void): void;
+	onError(listener: (error: Error) => void): void;
+	terminate(): void;
+}
+
+// Paths blocks never read: hidden files and folders, and the config folder
+export function isPrivatePath(path: string, configDir: string): boolean {
+	return path.split('/').some(part => part.startsWith('.')) || path === configDir || path.startsWith(`${configDir}/`);
+}
+
+// Everything the core needs from its environment: Obsidian in the plugin, Node for the headless runner
+export interface Host {
+	storage: StorageHost;
+	// The vault's settings folder, e.g. '.obsidian', which holds plugin data such as API keys
+	readonly configDir: string;
+	// Tell the user something; a Notice in Obsidian, a log line elsewhere
+	notify(message: string, timeoutMs?: number): void;
+	// Open canvas views; empty where there's no workspace
+	getCanvasViews(): CanvasView[];
+	// The part of a note named by a subpath such as '#Heading' or '#^block-id', or null if not found
+	findSection(path: string, content: string, subpath: string): NoteSection | null;
+	// Start a worker running the script, with no access to the vault or the app
+	createWorker(source: string): SandboxWorker;
+}
@@ -0,0 +1,102 @@
+import { StorageHost } from './Host';
+
+// A vault held in memory, for scripts and tests. Reads fall through to another storage, e.g. the
+// files on disk, until a path is written or removed here; writes never reach it.
+export class MemoryStorage implements StorageHost {
+	private files = new Map<string, string>();
+	private folders = new Set<string>();
+	// Paths removed here that the fallback still has
+	private removed = new Set<string>();
+	private fallback: StorageHost | null;
+
+	constructor(files: Record<string, string> = {}, fallback: StorageHost | null = null) {
+		this.fallback = fallback;
+		for (const [path, content] of Object.entries(files)) {
+			this.files.set(normalize(path), content);
+		}
+	}
+
+	async read(path: string): Promise<string> {
+		const key = normalize(path);
+		const content = this.files.get(key);
+		if (content !== undefined) return content;
+		if (this.fallback && !this.removed.has(key)) return this.fallback.read(path);
+		throw new Error(`File not found: ${path}`);
+	}
+
+	async write(path: string, content: string): Promise<void> {
+		const key = normalize(path);
+		this.files.set(key, content);
+		this.removed.delete(key);
+	}
+
+	async exists(path: string): Promise<boolean> {
+		const key = normalize(path);
+		if (this.files.has(key) || this.isFolder(key)) return true;
+		return !!this.fallback && !this.removed.has(key) && this.fallback.exists(path);
+	}
+
+	async list(path: string): Promise<{ files: string[]; folders: string[] }> {
+		const key = normalize(path);
+		const prefix = key ? `${key}/` : '';
+		const files = new Set<string>();
+		const folders = new Set<string>();
+
+		if (this.fallback && !this.removed.has(key) && await this.fallback.exists(path)) {
+			const listed = await this.fallback.list(path);
+			listed.files.forEach(file => files.add(normalize(file)));
+			listed.folders.forEach(folder => folders.add(normalize(folder)));
+		}
+		for (const file of this.files.keys()) {
+			if (!file.startsWith(prefix)) continue;
+			const [name, ...rest] = file.slice(prefix.length).split('/');
+			(rest.length > 0 ? folders : files).add(prefix + name);
+		}
+		for (const folder of this.folders) {
+			if (folder.startsWith(prefix) && !folder.slice(prefix.length).includes('/')) {
+				folders.add(folder);
+			}
+		}
+
+		const visible = (entry: string) => !this.removed.has(entry);
+		return { files: Array.from(files).filter(visible), folders: Array.from(folders).filter(visible) };
+	}
+
+	async mkdir(path: string): Promise<void> {
+		const parts = normalize(path).split('/');
+		for (let i = 1; i <= parts.length; i++) {
+			const folder = parts.slice(0, i).join('/');
+			this.folders.add(folder);
+			this.removed.delete(folder);
+		}
+	}
+
+	async remove(path: string): Promise<void> {
+		const key = normalize(path);
+		this.files.delete(key);
+		if (this.fallback) this.removed.add(key);
+	}
+
+	async process(path: string, fn: (content: string) => string): Promise<string> {
+		const content = fn(await this.read(path));
+		await this.write(path, content);
+		return content;
+	}
+
+	// Files written or changed here, e.g. to save the results of a run
+	getChangedFiles(): Map<string, string> {
+		return new Map(this.files);
+	}
+
+	private isFolder(key: string): boolean {
+		if (this.folders.has(key)) return true;
+		const prefix = `${key}/`;
+		return Array.from(this.files.keys()).some(file => file.startsWith(prefix));
+	}
+}
+
+// 'folder//note.md' and './folder/note.md' are the same file. Absolute paths stay absolute, so
+// files outside the vault (e.g. a blocks folder elsewhere on disk) are passed to the fallback as given.
+function normalize(path: string): string {
+	return path.replace(/\\/g, '/').replace(/\/+/g, '/').replace(/^(\.\/)+/, '').replace(/(.)\/$/, '$1');
+}
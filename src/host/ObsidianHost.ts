@@ -0,0 +1,106 @@
+import { App, normalizePath, Notice, resolveSubpath, TFile } from 'obsidian';
+import { CanvasView, Host, NoteSection, SandboxWorker, StorageHost } from './Host';
+
+// Files Obsidian has indexed go through the vault, so open views and other plugins see the change;
+// everything else (the plugin's own folder, hidden files) through the adapter
+class VaultStorage implements StorageHost {
+	private app: App;
+
+	constructor(app: App) {
+		this.app = app;
+	}
+
+	async read(path: string): Promise<string> {
+		const file = this.getFile(path);
+		return file ? this.app.vault.read(file) : this.app.vault.adapter.read(path);
+	}
+
+	async write(path: string, content: string): Promise<void> {
+		const file = this.getFile(path);
+		if (file) {
+			await this.app.vault.modify(file, content);
+		} else {
+			await this.app.vault.adapter.write(path, content);
+		}
+	}
+
+	exists(path: string): Promise<boolean> {
+		return this.app.vault.adapter.exists(path);
+	}
+
+	list(path: string): Promise<{ files: string[]; folders: string[] }> {
+		return this.app.vault.adapter.list(path);
+	}
+
+	mkdir(path: string): Promise<void> {
+		return this.app.vault.adapter.mkdir(path);
+	}
+
+	remove(path: string): Promise<void> {
+		return this.app.vault.adapter.remove(path);
+	}
+
+	async process(path: string, fn: (content: string) => string): Promise<string> {
+		const file = this.getFile(path);
+		if (file) {
+			return this.app.vault.process(file, fn);
+		}
+		const content = fn(await this.app.vault.adapter.read(path));
+		await this.app.vault.adapter.write(path, content);
+		return content;
+	}
+
+	private getFile(path: string): TFile | null {
+		const file = this.app.vault.getAbstractFileByPath(normalizePath(path));
+		return file instanceof TFile ? file : null;
+	}
+}
+
+export class ObsidianHost implements Host {
+	storage: StorageHost;
+	private app: App;
+
+	constructor(app: App) {
+		this.app = app;
+		this.storage = new VaultStorage(app);
+	}
+
+	get configDir(): string {
+		return this.app.vault.configDir;
+	}
+
+	notify(message: string, timeoutMs?: number): void {
+		new Notice(message, timeoutMs);
+	}
+
+	getCanvasViews(): CanvasView[] {
+		return this.app.workspace.getLeavesOfType('canvas').map(leaf => leaf.view as unknown as CanvasView);
+	}
+
+	// Uses the metadata cache, so it matches how Obsidian itself resolves links to headings and blocks
+	findSection(path: string, content: string, subpath: string): NoteSection | null {
+		const file = this.app.vault.getAbstractFileByPath(path);
+		const cache = file instanceof TFile ? this.app.metadataCache.getFileCache(file) : null;
+		const section = cache ? resolveSubpath(cache, subpath) : null;
+		if (!section) return null;
+		return { start: section.start.offset, end: section.end?.offset };
+	}
+
+	// A web worker: it runs outside the window, so it can't reach the app or Node's modules
+	createWorker(source: string): SandboxWorker {
+		const url = URL.createObjectURL(new Blob([source], { type: 'text/javascript' }));
+		const worker = new Worker(url);
+		return {
+			postMessage: message => worker.postMessage(message),
+			onMessage: listener => worker.addEventListener('message', event => listener(event.data)),
+			onError: listener => worker.addEventListener('error', event => {
+				event.preventDefault();
+				listener(new Error(event.message || 'The worker failed'));
+			}),
+			terminate: () => {
+				worker.terminate();
+				URL.revokeObjectURL(url);
+			}
+		};
+	}
+}
@@ -0,0 +1,238 @@
+import { LivingCanvasPlugin } from '../../main';
+import { JsonSchema } from '../JsonSchema';
+
+// How a provider expects its API key to be sent
+export type AuthScheme = 'bearer' | 'x-api-key' | 'api-key' | 'none';
+
+// A provider as configured by the user in the plugin settings
+export interface ProviderConfig {
+	id: string;
+	name: string;
+	type: string;
+	baseUrl: string;
+	apiKey: string;
+	authScheme: AuthScheme;
+	models: string[];
+	// Mock provider only: where fixtures are kept, and the model 'replay' records from
+	fixtureFolder?: string;
+	recordModel?: string;
+}
+
+// Sampling and length controls passed through to the provider
+export interface GenerationParams {
+	temperature?: number;
+	maxTokens?: number;
+	topP?: number;
+	stop?: string[];
+}
+
+export interface ChatMessage {
+	role: 'user' | 'assistant';
+	content: string;
+}
+
+// Provider-neutral conversation; each provider maps it onto its own message format
+export interface ChatRequest {
+	system?: string;
+	messages: ChatMessage[];
+	// Ask for a JSON response matching this schema, using the provider's JSON mode where it has one
+	responseSchema?: JsonSchema;
+}
+
+export interface CompletionRequest extends ChatRequest {
+	model: string;
+	params: GenerationParams;
+}
+
+export interface TokenUsage {
+	inputTokens: number;
+	outputTokens: number;
+}
+
+export interface CompletionResponse {
+	text: string;
+	// Reported by the API; absent when a server doesn't return usage
+	usage?: TokenUsage;
+}
+
+// Error from a provider call, classified so callers know whether trying again can help
+export class AIProviderError extends Error {
+	status?: number;
+	retryable: boolean;
+	retryAfterMs?: number;
+
+	constructor(message: string, options: { status?: number; retryable: boolean; retryAfterMs?: number }) {
+		super(message);
+		this.name = 'AIProviderError';
+		this.status = options.status;
+		this.retryable = options.retryable;
+		this.retryAfterMs = options.retryAfterMs;
+	}
+}
+
+// Thrown when a run is cancelled through its AbortSignal
+export class RunCancelledError extends Error {
+	constructor() {
+		super('Run cancelled');
+		this.name = 'RunCancelledError';
+	}
+}
+
+export function isAbortError(error: unknown): boolean {
+	return error instanceof RunCancelledError || (error instanceof Error && error.name === 'AbortError');
+}
+
+// Rate limits, timeouts and server-side failures (including Anthropic's 529 "overloaded") are worth retrying
+export function isRetryableStatus(status: number): boolean {
+	return status === 408 || status === 409 || status === 429 || status >= 500;
+}
+
+export interface AIProvider {
+	readonly config: ProviderConfig;
+	complete(request: CompletionRequest, onToken?: (token: string) => void, signal?: AbortSignal): Promise<CompletionResponse>;
+}
+
+// Shared plumbing for HTTP providers: auth headers, error mapping and SSE parsing
+export abstract class BaseProvider implements AIProvider {
+	readonly config: ProviderConfig;
+	protected plugin: LivingCanvasPlugin;
+
+	constructor(config: ProviderConfig, plugin: LivingCanvasPlugin) {
+		this.config = config;
+		this.plugin = plugin;
+	}
+
+	abstract complete(request: CompletionRequest, onToken?: (token: string) => void, signal?: AbortSignal): Promise<CompletionResponse>;
+
+	// Whether requests can be sent without an API key (e.g. a local server)
+	protected requiresApiKey(): boolean {
+		return this.config.authScheme !== 'none';
+	}
+
+	protected endpoint(path: string): string {
+		return this.config.baseUrl.replace(/\/+$/, '') + path;
+	}
+
+	protected authHeaders(): Record<string, string> {
+		const apiKey = this.config.apiKey;
+		if (!apiKey) return {};
+
+		switch (this.config.authScheme) {
+			case 'bearer':
+				return { 'Authorization': `Bearer ${apiKey}` };
+			case 'x-api-key':
+				return { 'x-api-key': apiKey };
+			case 'api-key':
+				return { 'api-key': apiKey };
+			default:
+				return {};
+		}
+	}
+
+	// POST a JSON body and throw a readable error for non-OK responses
+	protected async postJSON(path: string, body: unknown, headers: Record<string, string> = {}, signal?: AbortSignal): Promise<Response> {
+		if (this.requiresApiKey() && !this.config.apiKey) {
+			throw new Error(`${this.config.name} API key not configured. Please add it in the plugin settings.`);
+		}
+
+		let response: Response;
+		try {
+			response = await fetch(this.endpoint(path), {
+				method: 'POST',
+				headers: {
+					...this.authHeaders(),
+					'Content-Type': 'application/json',
+					...headers
+				},
+				body: JSON.stringify(body),
+				signal
+			});
+		} catch (error) {
+			if (isAbortError(error)) {
+				throw new RunCancelledError();
+			}
+			// Otherwise fetch only rejects for network failures
+			throw new AIProviderError(`${this.config.name} network error: ${error instanceof Error ? error.message : String(error)}`, {
+				retryable: true
+			});
+		}
+
+		if (!response.ok) {
+			const errorData = await response.json().catch(() => ({}));
+			throw new AIProviderError(`${this.config.name} API error: ${response.status} ${errorData.error?.message || response.statusText}`, {
+				status: response.status,
+				retryable: isRetryableStatus(response.status),
+				retryAfterMs: this.parseRetryAfter(response.headers)
+			});
+		}
+
+		return response;
+	}
+
+	// Retry-After is either seconds or an HTTP date; OpenAI also sends retry-after-ms
+	protected parseRetryAfter(headers: Headers): number | undefined {
+		const ms = Number(headers.get('retry-after-ms'));
+		if (ms > 0) return ms;
+
+		const value = headers.get('retry-after');
+		if (!value) return undefined;
+
+		const seconds = Number(value);
+		if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+		const date = Date.parse(value);
+		return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+	}
+
+	// Read a server-sent events body, calling onEvent with each event's data payload
+	protected async readEventStream(response: Response, onEvent: (data: string, event?: string) => void): Promise<void> {
+		if (!response.body) {
+			throw new Error('Streaming is not supported: response has no body');
+		}
+
+		const reader = response.body.getReader();
+		const decoder = new TextDecoder();
+		let buffer = '';
+
+		const dispatch = (raw: string) => {
+			let event: string | undefined;
+			const dataLines: string[] = [];
+			for (const line of raw.split(/\r?\n/)) {
+				if (line.startsWith('event:')) {
+					event = line.slice(6).trim();
+				} else if (line.startsWith('data:')) {
+					dataLines.push(line.slice(5).replace(/^ /, ''));
+				}
+			}
+			if (dataLines.length > 0) {
+				onEvent(dataLines.join('\n'), event);
+			}
+		};
+
+		try {
+			// eslint-disable-next-line no-constant-condition
+			while (true) {
+				const { done, value } = await reader.read();
+				if (done) break;
+				buffer += decoder.decode(value, { stream: true });
+
+				// Events are separated by a blank line
+				let boundary = buffer.search(/\r?\n\r?\n/);
+				while (boundary !== -1) {
+					const raw = buffer.slice(0, boundary);
+					buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, '');
+					dispatch(raw);
+					boundary = buffer.search(/\r?\n\r?\n/);
+				}
+			}
+		} catch (error) {
+			reader.cancel().catch(() => undefined);
+			throw isAbortError(error) ? new RunCancelledError() : error;
+		}
+
+		buffer += decoder.decode();
+		if (buffer.trim()) {
+			dispatch(buffer);
+		}
+	}
+}
@@ -0,0 +1,77 @@
+import { AIProviderError, BaseProvider, ChatMessage, CompletionRequest, CompletionResponse, TokenUsage } from './AIProvider';
+
+// Anthropic Messages API
+export class AnthropicProvider extends BaseProvider {
+	async complete(request: CompletionRequest, onToken?: (token: string) => void, signal?: AbortSignal): Promise<CompletionResponse> {
+		// There is no JSON mode, so start the assistant's turn with the opening bracket
+		const prefill = request.responseSchema ? (request.responseSchema.type === 'array' ? '[' : '{') : '';
+
+		try {
+			const response = await this.postJSON('/messages', {
+				model: request.model,
+				// Anthropic requires an explicit output limit
+				max_tokens: request.params.maxTokens ?? 2000,
+				temperature: request.params.temperature,
+				top_p: request.params.topP,
+				stop_sequences: request.params.stop?.length ? request.params.stop : undefined,
+				system: request.system || undefined,
+				messages: this.toAnthropicMessages(prefill ? [...request.messages, { role: 'assistant', content: prefill }] : request.messages),
+				stream: true
+			}, {
+				'anthropic-version': '2023-06-01',
+				'anthropic-dangerous-direct-browser-access': 'true'
+			}, signal);
+
+			let text = prefill;
+			let finished = false;
+			// Input tokens arrive with message_start, the output count with message_delta
+			const usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+			await this.readEventStream(response, (data, event) => {
+				const payload = JSON.parse(data);
+				if (event === 'error' || payload.type === 'error') {
+					// Errors after the stream has started arrive as events, e.g. overloaded_error
+					const errorType = payload.error?.type;
+					throw new AIProviderError(`${this.config.name} API error: ${payload.error?.message || 'stream failed'}`, {
+						retryable: errorType === 'overloaded_error' || errorType === 'rate_limit_error' || errorType === 'api_error'
+					});
+				}
+				if (payload.type === 'message_start' && payload.message?.usage) {
+					usage.inputTokens = payload.message.usage.input_tokens || 0;
+					usage.outputTokens = payload.message.usage.output_tokens || 0;
+				} else if (payload.type === 'message_delta' && payload.usage) {
+					usage.outputTokens = payload.usage.output_tokens || usage.outputTokens;
+				} else if (payload.type === 'content_block_delta' && payload.delta?.type === 'text_delta') {
+					text += payload.delta.text;
+					onToken?.(payload.delta.text);
+				} else if (payload.type === 'message_stop') {
+					finished = true;
+				}
+			});
+
+			if (!finished) {
+				throw new AIProviderError(`${this.config.name} API error: stream ended before the message was complete`, { retryable: true });
+			}
+			return { text: text || 'No response received', usage };
+		} catch (error) {
+			this.plugin.debug(`${this.config.name} API error:`, error);
+			throw error;
+		}
+	}
+
+	// The Messages API needs alternating roles starting with the user, so merge consecutive turns
+	private toAnthropicMessages(messages: ChatMessage[]): ChatMessage[] {
+		const merged: ChatMessage[] = [];
+		for (const message of messages) {
+			const last = merged[merged.length - 1];
+			if (last && last.role === message.role) {
+				last.content += `\n\n${message.content}`;
+			} else {
+				merged.push({ role: message.role, content: message.content });
+			}
+		}
+		if (merged.length > 0 && merged[0].role !== 'user') {
+			merged.unshift({ role: 'user', content: '(continue)' });
+		}
+		return merged;
+	}
+}
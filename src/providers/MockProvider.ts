@@ -0,0 +1,134 @@
+import { normalizePath } from 'obsidian';
+import { estimateRequestTokens, estimateTokens } from '../Chunker';
+import { hashValue } from '../hash';
+import { LivingCanvasPlugin } from '../../main';
+import { AIProviderError, BaseProvider, ChatRequest, CompletionRequest, CompletionResponse, ProviderConfig, RunCancelledError, TokenUsage } from './AIProvider';
+
+// The mock provider's models are its modes
+export const MOCK_MODES = ['echo', 'fixture', 'replay'];
+
+export const DEFAULT_FIXTURE_FOLDER = 'Living Canvas Fixtures';
+
+// A canned response, stored as <fixture folder>/<prompt hash>.json. Only response is required;
+// recorded fixtures also keep the request and where the response came from.
+export interface Fixture {
+	response: string;
+	usage?: TokenUsage;
+	request?: ChatRequest;
+	model?: string;
+	recordedAt?: string;
+}
+
+// The prompt as one text: the system prompt, then each message
+export function promptText(request: ChatRequest): string {
+	const parts = request.system ? [request.system] : [];
+	parts.push(...request.messages.map(message => message.content));
+	return parts.join('\n\n');
+}
+
+// The hash fixtures are keyed by: the prompt alone, so a fixture answers it whatever the model or
+// parameters. For a block that makes one plain call, it's the prompt hash in the output's provenance.
+export function promptHash(request: ChatRequest): Promise<string> {
+	return hashValue({ system: request.system, messages: request.messages, responseSchema: request.responseSchema });
+}
+
+// Answers without a network: 'echo' returns the prompt, 'fixture' looks the prompt up in the
+// fixture folder, and 'replay' does the same but records a response from the configured model
+// when there is no fixture yet.
+export class MockProvider extends BaseProvider {
+	// Block tests give a fixed reply, used for every prompt whatever the mode
+	private reply?: string;
+
+	constructor(config: ProviderConfig, plugin: LivingCanvasPlugin, reply?: string) {
+		super(config, plugin);
+		this.reply = reply;
+	}
+
+	async complete(request: CompletionRequest, onToken?: (token: string) => void, signal?: AbortSignal): Promise<CompletionResponse> {
+		if (signal?.aborted) {
+			throw new RunCancelledError();
+		}
+
+		const response = await this.respond(request, signal);
+		onToken?.(response.text);
+		return response;
+	}
+
+	getFixturePath(hash: string): string {
+		return normalizePath(`${this.config.fixtureFolder || DEFAULT_FIXTURE_FOLDER}/${hash}.json`);
+	}
+
+	private async respond(request: CompletionRequest, signal?: AbortSignal): Promise<CompletionResponse> {
+		if (this.reply !== undefined) {
+			return { text: this.reply, usage: { inputTokens: estimateRequestTokens(request), outputTokens: estimateTokens(this.reply) } };
+		}
+		switch (request.model) {
+			case 'echo':
+				return this.echo(request);
+			case 'fixture':
+				return this.playFixture(request, false, signal);
+			case 'replay':
+				return this.playFixture(request, true, signal);
+			default:
+				throw new AIProviderError(`${this.config.name}: unknown mode '${request.model}' (use ${MOCK_MODES.join(', ')})`, { retryable: false });
+		}
+	}
+
+	private echo(request: CompletionRequest): CompletionResponse {
+		const text = promptText(request);
+		return { text, usage: { inputTokens: estimateRequestTokens(request), outputTokens: estimateTokens(text) } };
+	}
+
+	private async playFixture(request: CompletionRequest, record: boolean, signal?: AbortSignal): Promise<CompletionResponse> {
+		const hash = await promptHash(request);
+		const path = this.getFixturePath(hash);
+		const storage = this.plugin.host.storage;
+
+		if (await storage.exists(path)) {
+			this.plugin.debug(`Playing fixture ${path}`);
+			const fixture = this.parseFixture(path, await storage.read(path));
+			return {
+				text: fixture.response,
+				usage: fixture.usage || { inputTokens: estimateRequestTokens(request), outputTokens: estimateTokens(fixture.response) }
+			};
+		}
+
+		if (!record) {
+			throw new AIProviderError(`${this.config.name}: no fixture for this prompt. Add ${path} with a "response" field.`, { retryable: false });
+		}
+		if (!this.config.recordModel) {
+			throw new AIProviderError(`${this.config.name}: no fixture for this prompt, and no model to record from is set.`, { retryable: false });
+		}
+
+		const { provider, model } = this.plugin.providerRegistry.resolve(this.config.recordModel);
+		if (provider instanceof MockProvider) {
+			throw new AIProviderError(`${this.config.name}: can't record from another mock provider`, { retryable: false });
+		}
+		this.plugin.debug(`Recording fixture ${path} from ${this.config.recordModel}`);
+		const recorded = await provider.complete({ ...request, model }, undefined, signal);
+
+		const fixture: Fixture = {
+			response: recorded.text,
+			usage: recorded.usage,
+			request: { system: request.system, messages: request.messages, responseSchema: request.responseSchema },
+			model: `${provider.config.id}:${model}`,
+			recordedAt: new Date().toISOString()
+		};
+		await storage.mkdir(normalizePath(this.config.fixtureFolder || DEFAULT_FIXTURE_FOLDER));
+		await storage.write(path, JSON.stringify(fixture, null, '\t'));
+		return recorded;
+	}
+
+	private parseFixture(path: string, content: string): Fixture {
+		let fixture: Partial<Fixture>;
+		try {
+			fixture = JSON.parse(content);
+		} catch (error) {
+			throw new AIProviderError(`${this.config.name}: ${path} is not valid JSON`, { retryable: false });
+		}
+		if (typeof fixture?.response !== 'string') {
+			throw new AIProviderError(`${this.config.name}: ${path} has no "response" text`, { retryable: false });
+		}
+		return fixture as Fixture;
+	}
+}
@@ -0,0 +1,74 @@
+import { AIProviderError, BaseProvider, ChatRequest, CompletionRequest, CompletionResponse, TokenUsage } from './AIProvider';
+
+// Chat Completions API, used by OpenAI itself and by compatible gateways and local servers
+export class OpenAIProvider extends BaseProvider {
+	async complete(request: CompletionRequest, onToken?: (token: string) => void, signal?: AbortSignal): Promise<CompletionResponse> {
+		try {
+			const response = await this.postJSON('/chat/completions', {
+				model: request.model,
+				messages: this.toOpenAIMessages(request),
+				max_tokens: request.params.maxTokens,
+				temperature: request.params.temperature,
+				top_p: request.params.topP,
+				stop: request.params.stop?.length ? request.params.stop : undefined,
+				// JSON mode is the widely supported variant; the schema itself travels in the system prompt
+				response_format: request.responseSchema ? { type: 'json_object' } : undefined,
+				stream: true,
+				// Ask for a final chunk carrying token counts. Only OpenAI itself is sure to accept this;
+				// some compatible servers reject unknown fields.
+				stream_options: this.config.type === 'openai' ? { include_usage: true } : undefined
+			}, {}, signal);
+
+			let text = '';
+			let usage: TokenUsage | undefined;
+			let finished = false;
+			await this.readEventStream(response, (data) => {
+				if (data === '[DONE]') {
+					finished = true;
+					return;
+				}
+				const chunk = JSON.parse(data);
+				if (chunk.error) {
+					throw new AIProviderError(`${this.config.name} API error: ${chunk.error.message || 'stream failed'}`, {
+						retryable: chunk.error.type === 'server_error' || chunk.error.code === 'rate_limit_exceeded'
+					});
+				}
+				if (chunk.usage) {
+					usage = {
+						inputTokens: chunk.usage.prompt_tokens || 0,
+						outputTokens: chunk.usage.completion_tokens || 0
+					};
+				}
+				const token = chunk.choices?.[0]?.delta?.content;
+				if (token) {
+					text += token;
+					onToken?.(token);
+				}
+				// Some compatible servers end with a finish_reason instead of [DONE]
+				if (chunk.choices?.[0]?.finish_reason) {
+					finished = true;
+				}
+			});
+
+			if (!finished) {
+				throw new AIProviderError(`${this.config.name} API error: stream ended before the response was complete`, { retryable: true });
+			}
+			return { text: text || 'No response received', usage };
+		} catch (error) {
+			this.plugin.debug(`${this.config.name} API error:`, error);
+			throw error;
+		}
+	}
+
+	// The system prompt travels as the first message
+	private toOpenAIMessages(request: ChatRequest): { role: string; content: string }[] {
+		const messages: { role: string; content: string }[] = [];
+		if (request.system) {
+			messages.push({ role: 'system', content: request.system });
+		}
+		for (const message of request.messages) {
+			messages.push({ role: message.role, content: message.content });
+		}
+		return messages;
+	}
+}
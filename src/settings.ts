@@ -0,0 +1,78 @@
+import { DEFAULT_CONTEXT_LIMITS } from './Chunker';
+import { BlockPermission } from './ExecutorSandbox';
+import { PipelineErrorPolicy } from './PipelineRunner';
+import { ProviderConfig } from './providers/AIProvider';
+import { DEFAULT_MODEL_PRICES, ModelPrice } from './UsageLedger';
+
+// Kept apart from the plugin class so the headless runner can use them outside Obsidian
+export interface LivingCanvasSettings {
+	providers: ProviderConfig[];
+	defaultModel: string;
+	maxRetries: number;
+	retryBaseDelayMs: number;
+	retryMaxDelayMs: number;
+	cacheEnabled: boolean;
+	cacheMaxSizeMB: number;
+	cacheTtlDays: number;
+	modelPrices: Record<string, ModelPrice>;
+	contextLimits: Record<string, number>;
+	defaultContextLimit: number;
+	pipelineErrorPolicy: PipelineErrorPolicy;
+	autoRerunStale: boolean;
+	autoRerunDelaySeconds: number;
+	batchConcurrency: number;
+	stripFrontmatter: boolean;
+	linkCacheHours: number;
+	outputHistoryLimit: number;
+	exportFolder: string;
+	executorTimeoutSeconds: number;
+	// Per block id, the permissions the user approved or declined, for the executor with this hash
+	blockPermissions: Record<string, { granted: BlockPermission[]; denied: BlockPermission[]; hash: string }>;
+	enableDebugMode: boolean;
+	savedPrompts?: { name: string; content: string }[];
+}
+
+export const DEFAULT_SETTINGS: LivingCanvasSettings = {
+	providers: [
+		{
+			id: 'openai',
+			name: 'OpenAI',
+			type: 'openai',
+			baseUrl: 'https://api.openai.com/v1',
+			apiKey: '',
+			authScheme: 'bearer',
+			models: ['gpt-3.5-turbo', 'gpt-4']
+		},
+		{
+			id: 'anthropic',
+			name: 'Anthropic',
+			type: 'anthropic',
+			baseUrl: 'https://api.anthropic.com/v1',
+			apiKey: '',
+			authScheme: 'x-api-key',
+			models: ['claude-3-sonnet', 'claude-3-haiku']
+		}
+	],
+	defaultModel: 'openai:gpt-3.5-turbo',
+	maxRetries: 3,
+	retryBaseDelayMs: 1000,
+	retryMaxDelayMs: 30000,
+	cacheEnabled: true,
+	cacheMaxSizeMB: 50,
+	cacheTtlDays: 30,
+	modelPrices: DEFAULT_MODEL_PRICES,
+	contextLimits: DEFAULT_CONTEXT_LIMITS,
+	defaultContextLimit: 8192,
+	pipelineErrorPolicy: 'stop',
+	autoRerunStale: false,
+	autoRerunDelaySeconds: 10,
+	batchConcurrency: 3,
+	stripFrontmatter: true,
+	linkCacheHours: 24,
+	outputHistoryLimit: 10,
+	exportFolder: 'Living Canvas Exports',
+	executorTimeoutSeconds: 10,
+	blockPermissions: {},
+	enableDebugMode: false,
+	savedPrompts: []
+};